@@ -5,8 +5,18 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import express from "express";
 import { randomUUID } from "node:crypto";
+import { getSubscriptionSettings } from "./mcp/resources/subscriptions.js";
+import { allTools } from "./mcp/tools/index.js";
 import { createServer } from "./server.js";
+import type { DokployConnection } from "./utils/apiClient.js";
+import { getClientConfig } from "./utils/clientConfig.js";
+import { getHttpAuthConfig, requireAuth } from "./utils/httpAuth.js";
 import { createLogger } from "./utils/logger.js";
+import { getProtectedResourceMetadata } from "./utils/oauth.js";
+import {
+  getAllowedDokployHosts,
+  resolveSessionConnection,
+} from "./utils/sessionCredentials.js";
 
 // Container always uses port 3000 internally
 const PORT = 3000;
@@ -14,6 +24,19 @@ const logger = createLogger("MCP-HTTP-Server");
 
 export async function main() {
   const app = express();
+  const authConfig = getHttpAuthConfig();
+  const auth = requireAuth(authConfig);
+
+  // Sessions may bring their own Dokploy credentials for allow-listed hosts
+  const allowedDokployHosts = getAllowedDokployHosts();
+  if (allowedDokployHosts.length > 0) {
+    logger.info("Per-session Dokploy credentials enabled", {
+      allowedHosts: allowedDokployHosts,
+    });
+  } else {
+    // Every session uses the server-wide credentials, so they must exist
+    getClientConfig();
+  }
 
   app.use(express.json());
 
@@ -23,29 +46,118 @@ export async function main() {
     sse: {} as Record<string, SSEServerTransport>,
   };
 
+  // Client identity that opened each session, for logging and ownership checks
+  const sessionClients: Record<string, string> = {};
+
+  // Sessions can only be used by the client that created them
+  const rejectForeignSession = (
+    sessionId: string,
+    req: express.Request,
+    res: express.Response
+  ) => {
+    if (sessionClients[sessionId] === req.auth?.clientId) {
+      return false;
+    }
+
+    logger.warn("Rejected request for another client's session", {
+      sessionId,
+      clientId: req.auth?.clientId,
+    });
+    res.status(403).json({
+      jsonrpc: "2.0",
+      error: {
+        code: -32000,
+        message: "Forbidden: Session belongs to a different client",
+      },
+      id: null,
+    });
+    return true;
+  };
+
+  // Dokploy connection for a new session, or undefined once an error is sent
+  const resolveConnection = (
+    req: express.Request,
+    res: express.Response
+  ): DokployConnection | null | undefined => {
+    const result = resolveSessionConnection(req.headers, allowedDokployHosts);
+    if (result.ok) {
+      return result.connection;
+    }
+
+    logger.warn("Rejected session with invalid Dokploy credentials", {
+      clientId: req.auth?.clientId,
+      reason: result.message,
+    });
+    res.status(result.status).json({
+      jsonrpc: "2.0",
+      error: {
+        code: -32000,
+        message: result.message,
+      },
+      id: null,
+    });
+    return undefined;
+  };
+
+  const describeConnection = (connection: DokployConnection | null) =>
+    connection ? new URL(connection.dokployUrl).host : "default";
+
   // Health check endpoint
   app.get("/health", (_req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
   });
 
+  // OAuth protected resource metadata (RFC 9728), also under the /mcp path suffix
+  const oauth = authConfig.oauth;
+  if (oauth) {
+    app.get(
+      [
+        "/.well-known/oauth-protected-resource",
+        "/.well-known/oauth-protected-resource/mcp",
+      ],
+      (_req, res) => {
+        res.json(
+          getProtectedResourceMetadata(
+            oauth,
+            allTools.map((tool) => tool.name)
+          )
+        );
+      }
+    );
+  }
+
   // Modern Streamable HTTP endpoint for POST requests (client-to-server)
-  app.post("/mcp", async (req, res) => {
+  app.post("/mcp", auth, async (req, res) => {
     try {
       // Check for existing session ID
       const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      const clientId = req.auth?.clientId ?? "anonymous";
       let transport: StreamableHTTPServerTransport;
 
       if (sessionId && transports.streamable[sessionId]) {
+        if (rejectForeignSession(sessionId, req, res)) {
+          return;
+        }
         // Reuse existing transport
         transport = transports.streamable[sessionId];
       } else if (!sessionId && isInitializeRequest(req.body)) {
         // New initialization request
+        const connection = resolveConnection(req, res);
+        if (connection === undefined) {
+          return;
+        }
+
         transport = new StreamableHTTPServerTransport({
           sessionIdGenerator: () => randomUUID(),
           onsessioninitialized: (sessionId) => {
             // Store the transport by session ID
             transports.streamable[sessionId] = transport;
-            logger.info("New MCP session initialized", { sessionId });
+            sessionClients[sessionId] = clientId;
+            logger.info("New MCP session initialized", {
+              sessionId,
+              clientId,
+              dokployHost: describeConnection(connection),
+            });
           },
         });
 
@@ -54,13 +166,18 @@ export async function main() {
           if (transport.sessionId) {
             logger.info("MCP session closed", {
               sessionId: transport.sessionId,
+              clientId: sessionClients[transport.sessionId],
             });
             delete transports.streamable[transport.sessionId];
+            delete sessionClients[transport.sessionId];
           }
         };
 
         // Create and connect server first
-        const server = createServer();
+        const server = createServer({
+          connection,
+          subscriptions: getSubscriptionSettings(req.headers),
+        });
         // The transport will have sessionId after initialization
         await server.connect(
           transport as StreamableHTTPServerTransport & { sessionId: string }
@@ -69,6 +186,7 @@ export async function main() {
         // Log after successful connection
         logger.info("New MCP session server connected", {
           sessionId: transport.sessionId,
+          clientId,
         });
       } else {
         // Invalid request
@@ -123,6 +241,10 @@ export async function main() {
       return;
     }
 
+    if (rejectForeignSession(sessionId, req, res)) {
+      return;
+    }
+
     try {
       const transport = transports.streamable[sessionId];
       await transport.handleRequest(req, res);
@@ -146,10 +268,10 @@ export async function main() {
   };
 
   // Handle GET requests for server-to-client notifications via SSE
-  app.get("/mcp", handleSessionRequest);
+  app.get("/mcp", auth, handleSessionRequest);
 
   // Handle DELETE requests for session termination
-  app.delete("/mcp", async (req, res) => {
+  app.delete("/mcp", auth, async (req, res) => {
     const sessionId = req.headers["mcp-session-id"] as string | undefined;
 
     if (!sessionId || !transports.streamable[sessionId]) {
@@ -164,14 +286,22 @@ export async function main() {
       return;
     }
 
+    if (rejectForeignSession(sessionId, req, res)) {
+      return;
+    }
+
     try {
       const transport = transports.streamable[sessionId];
       await transport.handleRequest(req, res);
 
       // Clean up after session termination
       if (transports.streamable[sessionId]) {
-        logger.info("MCP session terminated", { sessionId });
+        logger.info("MCP session terminated", {
+          sessionId,
+          clientId: sessionClients[sessionId],
+        });
         delete transports.streamable[sessionId];
+        delete sessionClients[sessionId];
       }
     } catch (error) {
       logger.error("Error handling DELETE request", {
@@ -192,25 +322,39 @@ export async function main() {
   });
 
   // Legacy SSE endpoint for older clients (protocol version 2024-11-05)
-  app.get("/sse", async (_req, res) => {
+  app.get("/sse", auth, async (req, res) => {
     try {
+      const connection = resolveConnection(req, res);
+      if (connection === undefined) {
+        return;
+      }
+
       // Create SSE transport for legacy clients
       const transport = new SSEServerTransport("/messages", res);
+      const clientId = req.auth?.clientId ?? "anonymous";
       transports.sse[transport.sessionId] = transport;
+      sessionClients[transport.sessionId] = clientId;
 
       res.on("close", () => {
         logger.info("Legacy SSE session closed", {
           sessionId: transport.sessionId,
+          clientId,
         });
         delete transports.sse[transport.sessionId];
+        delete sessionClients[transport.sessionId];
       });
 
       // Create and connect server for this transport
-      const server = createServer();
+      const server = createServer({
+        connection,
+        subscriptions: getSubscriptionSettings(req.headers),
+      });
       await server.connect(transport);
 
       logger.info("New legacy SSE session initialized", {
         sessionId: transport.sessionId,
+        clientId,
+        dokployHost: describeConnection(connection),
       });
     } catch (error) {
       logger.error("Error handling SSE request", {
@@ -230,7 +374,7 @@ export async function main() {
   });
 
   // Legacy message endpoint for older clients
-  app.post("/messages", async (req, res) => {
+  app.post("/messages", auth, async (req, res) => {
     try {
       const sessionId = req.query.sessionId as string;
 
@@ -261,6 +405,10 @@ export async function main() {
         return;
       }
 
+      if (rejectForeignSession(sessionId, req, res)) {
+        return;
+      }
+
       await transport.handlePostMessage(req, res, req.body);
     } catch (error) {
       logger.error("Error handling legacy message request", {
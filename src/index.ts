@@ -2,20 +2,32 @@
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createServer } from "./server.js";
+import {
+  getClientConfig,
+  hasDefaultCredentials,
+} from "./utils/clientConfig.js";
 import { createLogger } from "./utils/logger.js";
 import { validateLockedProject } from "./utils/projectLock.js";
 
 const logger = createLogger("MCP-Entry");
 
 async function main() {
-  // Validate locked project if DOKPLOY_LOCKED_PROJECT_ID is set
-  try {
-    await validateLockedProject();
-  } catch (error) {
-    logger.error("Failed to validate locked project", {
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
-    process.exit(1);
+  // Validate locked project if DOKPLOY_LOCKED_PROJECT_ID is set. Without
+  // server-wide credentials, HTTP sessions bring their own, and the lock is
+  // checked against their Dokploy instance on every call instead.
+  if (hasDefaultCredentials()) {
+    try {
+      await validateLockedProject();
+    } catch (error) {
+      logger.error("Failed to validate locked project", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      process.exit(1);
+    }
+  } else if (process.env.DOKPLOY_LOCKED_PROJECT_ID) {
+    logger.info(
+      "No default Dokploy credentials; the locked project is checked per session"
+    );
   }
 
   // Check if running in HTTP mode
@@ -36,7 +48,8 @@ async function main() {
     }
   }
 
-  // Default: stdio mode
+  // Default: stdio mode, which always acts with DOKPLOY_URL/DOKPLOY_API_KEY
+  getClientConfig();
   const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
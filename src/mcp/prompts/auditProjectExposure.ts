@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { createPrompt, toolCall } from "./promptFactory.js";
+
+export const auditProjectExposure = createPrompt({
+  name: "audit-project-exposure",
+  title: "Audit Project Exposure",
+  description:
+    "Reviews what a project exposes to the internet: domains, certificates, public database ports and secrets in build settings.",
+  argsSchema: {
+    projectId: z.string().describe("The ID of the project to audit."),
+  },
+  build: ({ projectId }) =>
+    [
+      `Audit what the Dokploy project "${projectId}" exposes to the internet. This is a read-only review: do not change anything.`,
+      "",
+      "Steps:",
+      "",
+      `1. Read the project: ${toolCall("dokploy_project", "get", { projectId })}. List every application, compose service and database in every environment.`,
+      `2. For each application, list its domains with ${toolCall("dokploy_application", "domainByApplicationId", { applicationId: "<applicationId>" })}; for each compose service use domainByComposeId with its composeId. Flag domains with https false or certificateType "none".`,
+      `3. For each database, read it with its tool's get action, e.g. ${toolCall("dokploy_postgres", "get", { postgresId: "<postgresId>" })}. Flag any externalPort: it publishes the database on the server's public interface.`,
+      "4. Check the environment variables and build arguments returned by the get actions for secrets passed as build arguments, which end up in image layers. Report variable names only, never values.",
+      `5. For applications with domains, review ${toolCall("dokploy_application", "readTraefikConfig", { applicationId: "<applicationId>" })} for routers without TLS.`,
+      "",
+      "Report a table with one row per finding: environment, service, finding, severity (high, medium, low) and the tool call that would fix it (for example saveExternalPort with externalPort null, or domainUpdate with https true).",
+    ].join("\n"),
+});
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { createPrompt, toolCall } from "./promptFactory.js";
+
+export const diagnoseFailingApplication = createPrompt({
+  name: "diagnose-failing-application",
+  title: "Diagnose Failing Application",
+  description:
+    "Walks through the status, deployments, build logs and routing of an application to find why it is failing.",
+  argsSchema: {
+    applicationId: z.string().describe("The ID of the failing application."),
+    symptom: z
+      .string()
+      .optional()
+      .describe(
+        'What the user sees, e.g. "deploy fails" or "502 on the domain".'
+      ),
+  },
+  build: ({ applicationId, symptom }) =>
+    [
+      `Diagnose why the Dokploy application "${applicationId}" is failing.`,
+      ...(symptom ? [`Reported symptom: ${symptom}`] : []),
+      "",
+      "Follow these steps in order and stop once the cause is clear:",
+      "",
+      `1. Read the application: ${toolCall("dokploy_application", "get", { applicationId })}. Note applicationStatus, sourceType, buildType, serverId and appName.`,
+      `2. List its deployments, newest first: ${toolCall("dokploy_deployment", "list", { applicationId })}. Find the latest deployment and whether it ended in "error".`,
+      `3. Read the build log of that deployment: ${toolCall("dokploy_deployment", "logs", { deploymentId: "<deploymentId>", applicationId, tail: 200 })}. Look for the first real error, not the last line.`,
+      `4. If the build succeeded but the app is unreachable, check its domains with ${toolCall("dokploy_application", "domainByApplicationId", { applicationId })} and its routing with ${toolCall("dokploy_application", "readTraefikConfig", { applicationId })}. A wrong container port is a common cause of 502s.`,
+      `5. If it crashes at runtime, check resource usage with ${toolCall("dokploy_application", "readAppMonitoring", { appName: "<appName>" })}.`,
+      "",
+      "Then report:",
+      "- The root cause, quoting the relevant log lines",
+      "- The fix, as the exact tool calls that would apply it (for example saveEnvironment, saveBuildType or domainUpdate)",
+      "",
+      `Do not change anything until the user confirms. After a confirmed fix, redeploy with ${toolCall("dokploy_application", "redeploy", { applicationId, wait: true })} and check the result.`,
+    ].join("\n"),
+});
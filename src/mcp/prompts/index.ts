@@ -0,0 +1,15 @@
+import { auditProjectExposure } from "./auditProjectExposure.js";
+import { diagnoseFailingApplication } from "./diagnoseFailingApplication.js";
+import { promoteEnvironment } from "./promoteEnvironment.js";
+import { provisionAppWithPostgres } from "./provisionAppWithPostgres.js";
+import { rotateDatabasePassword } from "./rotateDatabasePassword.js";
+import type { PromptDefinition } from "./promptFactory.js";
+
+// Runbooks for common workflows, registered as MCP prompts
+export const allPrompts: PromptDefinition[] = [
+  diagnoseFailingApplication,
+  provisionAppWithPostgres,
+  rotateDatabasePassword,
+  promoteEnvironment,
+  auditProjectExposure,
+];
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { createPrompt, toolCall } from "./promptFactory.js";
+
+export const promoteEnvironment = createPrompt({
+  name: "promote-environment",
+  title: "Promote Environment",
+  description:
+    "Promotes the services and configuration of one environment (e.g. staging) to another (e.g. production) in the same project.",
+  argsSchema: {
+    projectId: z.string().describe("The ID of the project."),
+    sourceEnvironmentId: z
+      .string()
+      .describe("The ID of the environment to promote from."),
+    targetEnvironmentId: z
+      .string()
+      .optional()
+      .describe(
+        "The ID of the environment to promote to. Omit to create a new environment as a copy."
+      ),
+  },
+  build: ({ projectId, sourceEnvironmentId, targetEnvironmentId }) =>
+    [
+      `Promote environment "${sourceEnvironmentId}" of project "${projectId}"${targetEnvironmentId ? ` to environment "${targetEnvironmentId}"` : " to a new environment"}.`,
+      "",
+      "Steps:",
+      "",
+      `1. Read the project: ${toolCall("dokploy_project", "get", { projectId })}. List the applications, compose services and databases of ${targetEnvironmentId ? "both environments" : "the source environment, with the ID and type of each"}.`,
+      ...(targetEnvironmentId
+        ? [
+            "2. Pair services by name. For each pair, read both sides with the tool's get action and compare source settings (repository, branch, Docker image), build type and environment variable names. Never copy values that differ on purpose between environments, such as database URLs, secrets and domains.",
+            "3. Show the user a table of the differences and the calls that would apply them (update, saveEnvironment, save*Provider), plus services that exist only in the source environment. Wait for confirmation.",
+            "4. Apply the confirmed changes to the target services. Create missing services with the tool's create action in the target environment.",
+            `5. Deploy each changed target service with wait: true, for example ${toolCall("dokploy_application", "deploy", { applicationId: "<target applicationId>", wait: true })}. Deploy databases before the applications that use them.`,
+            `6. Confirm every target service is running and check failures with ${toolCall("dokploy_deployment", "logs", { deploymentId: "<deploymentId>", applicationId: "<target applicationId>", tail: 100 })}.`,
+          ]
+        : [
+            `2. Ask the user for the new environment's name and which of the listed services to copy (all of them unless told otherwise). Dokploy only copies the services named in selectedServices, so list every one of them: ${toolCall("dokploy_project", "duplicate", { sourceEnvironmentId, name: "<new environment name>", includeServices: true, selectedServices: [{ id: "<serviceId>", type: "<application, compose, postgres, mysql, mariadb, mongo or redis>" }], duplicateInSameProject: true })}.`,
+            "3. Read the project again to find the copied services. Update the settings that must differ in the new environment, such as database URLs, secrets and domains, after confirming them with the user.",
+            "4. Deploy the copied databases, then the applications and compose services, each with wait: true.",
+            "5. Confirm every service in the new environment is running.",
+          ]),
+      "",
+      "Finish with a summary of what changed in the target environment.",
+    ].join("\n"),
+});
@@ -0,0 +1,61 @@
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodObject, ZodOptional, ZodType, ZodTypeDef } from "zod";
+
+// Prompt arguments are always strings, optionally omitted
+export type PromptArgsShape = Record<
+  string,
+  | ZodType<string, ZodTypeDef, string>
+  | ZodOptional<ZodType<string, ZodTypeDef, string>>
+>;
+
+export interface PromptDefinitionInput<TShape extends PromptArgsShape> {
+  name: string;
+  title: string;
+  description: string;
+  argsSchema: TShape;
+  // Expands the arguments into the runbook sent as the user message
+  build: (args: z.infer<ZodObject<TShape>>) => string;
+}
+
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  argsSchema: PromptArgsShape;
+  callback: (args: Record<string, string | undefined>) => GetPromptResult;
+}
+
+export function createPrompt<TShape extends PromptArgsShape>(
+  definition: PromptDefinitionInput<TShape>
+): PromptDefinition {
+  return {
+    name: definition.name,
+    title: definition.title,
+    description: definition.description,
+    argsSchema: definition.argsSchema,
+    // The SDK validates arguments against argsSchema before calling back
+    callback: (args) => ({
+      description: definition.description,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: definition.build(args as z.infer<ZodObject<TShape>>),
+          },
+        },
+      ],
+    }),
+  };
+}
+
+/**
+ * Renders a tool call the way runbooks show it to the model
+ */
+export function toolCall(
+  tool: string,
+  action: string,
+  params: Record<string, unknown>
+): string {
+  return `\`${tool}\` → \`${JSON.stringify({ action, params })}\``;
+}
@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { createPrompt, toolCall } from "./promptFactory.js";
+
+export const provisionAppWithPostgres = createPrompt({
+  name: "provision-app-with-postgres",
+  title: "Provision App with Postgres and Domain",
+  description:
+    "Creates a PostgreSQL database and an application wired to it, adds an HTTPS domain and deploys both.",
+  argsSchema: {
+    environmentId: z
+      .string()
+      .describe("The ID of the environment to create the services in."),
+    name: z.string().describe('Name of the application, e.g. "shop-api".'),
+    host: z
+      .string()
+      .describe("Domain for the application, e.g. api.example.com."),
+    port: z
+      .string()
+      .refine(
+        (value) =>
+          /^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 65535,
+        "Port must be a number between 1 and 65535"
+      )
+      .optional()
+      .describe(
+        "Port the application listens on inside the container. Defaults to 3000."
+      ),
+  },
+  build: ({ environmentId, name, host, port = "3000" }) =>
+    [
+      `Provision the application "${name}" with its own PostgreSQL database in environment "${environmentId}", served at https://${host}.`,
+      "",
+      "Steps:",
+      "",
+      `1. Generate a random 32-character password of letters and digits, so it needs no escaping in a connection URL.`,
+      `2. Create the database: ${toolCall("dokploy_postgres", "create", { name: `${name}-db`, appName: `${name}-db`, databaseName: name.replace(/[^a-zA-Z0-9_]/g, "_"), databaseUser: "app", databasePassword: "<generated password>", environmentId })}. Note the postgresId and the appName Dokploy assigns; the appName is the database's hostname inside the Docker network.`,
+      `3. Start it and wait until it is running: ${toolCall("dokploy_postgres", "deploy", { postgresId: "<postgresId>", wait: true })}.`,
+      `4. Create the application: ${toolCall("dokploy_application", "create", { name, environmentId })}. Note the applicationId.`,
+      "5. Ask the user where the code comes from and configure it with the matching action: saveGithubProvider, saveGitlabProvider, saveBitbucketProvider, saveGiteaProvider, saveGitProvider or saveDockerProvider. Set the build type with saveBuildType if the default (nixpacks) does not fit.",
+      `6. Point the application at the database: ${toolCall("dokploy_application", "setEnv", { applicationId: "<applicationId>", key: "DATABASE_URL", value: "postgresql://app:<generated password>@<postgres appName>:5432/<databaseName>" })}. Other variables are kept.`,
+      `7. Add the domain with a Let's Encrypt certificate: ${toolCall("dokploy_application", "domainCreate", { applicationId: "<applicationId>", host, port: Number(port), https: true, certificateType: "letsencrypt" })}. The DNS record for ${host} must already point at the Dokploy server.`,
+      `8. Deploy and wait for the result: ${toolCall("dokploy_application", "deploy", { applicationId: "<applicationId>", wait: true })}. If it fails, read the log tail in the response, or call dokploy_deployment logs.`,
+      "",
+      "Finish with a summary of the created IDs, the URL and where the database password is stored. Never print the password in the summary.",
+    ].join("\n"),
+});
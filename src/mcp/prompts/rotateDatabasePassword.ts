@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { createPrompt, toolCall } from "./promptFactory.js";
+
+// Command that changes the password inside each database engine
+const ENGINE_COMMANDS: Record<string, string> = {
+  postgres: "ALTER USER <databaseUser> WITH PASSWORD '<new password>';",
+  mysql:
+    "ALTER USER '<databaseUser>'@'%' IDENTIFIED BY '<new password>'; (and the same for root with the new root password)",
+  mariadb:
+    "ALTER USER '<databaseUser>'@'%' IDENTIFIED BY '<new password>'; (and the same for root with the new root password)",
+  mongo:
+    'db.getSiblingDB("admin").changeUserPassword("<databaseUser>", "<new password>")',
+};
+
+export const rotateDatabasePassword = createPrompt({
+  name: "rotate-database-password",
+  title: "Rotate Database Password",
+  description:
+    "Rotates the password of a Dokploy database and updates the applications that connect to it.",
+  argsSchema: {
+    databaseType: z
+      .enum(["postgres", "mysql", "mariadb", "mongo", "redis"])
+      .describe("The type of the database."),
+    databaseId: z
+      .string()
+      .describe("The ID of the database (postgresId, mysqlId, ...)."),
+  },
+  build: ({ databaseType, databaseId }) => {
+    const tool = `dokploy_${databaseType}`;
+    const idParam = `${databaseType}Id`;
+    const engineCommand = ENGINE_COMMANDS[databaseType];
+
+    return [
+      `Rotate the password of the ${databaseType} database "${databaseId}" without breaking the applications that use it.`,
+      "",
+      "Steps:",
+      "",
+      `1. Read the database: ${toolCall(tool, "get", { [idParam]: databaseId })}. Note databaseUser, appName and environmentId.`,
+      `2. Find the services that connect to it: read the project with ${toolCall("dokploy_project", "get", { projectId: "<projectId>" })}, then check the environment variables of each application and compose service in that environment for the database's appName or current password.`,
+      "3. Generate a new random password of 32 letters and digits.",
+      engineCommand
+        ? `4. Dokploy only sets the password when the database is first created, so change it inside the database first. Ask the user to run this in the database container (Dokploy terminal), since no tool runs SQL: ${engineCommand}`
+        : "4. Redis reads its password from the container configuration, so updating it in Dokploy and reloading is enough.",
+      `5. Store the new password in Dokploy: ${toolCall(tool, "update", { [idParam]: databaseId, databasePassword: "<new password>" })}. For MySQL and MariaDB, also pass databaseRootPassword if the root password was rotated.`,
+      `6. Reload the database: ${toolCall(tool, "reload", { [idParam]: databaseId, appName: "<appName>", wait: true })}.`,
+      "7. Update the variable that holds the password in every dependent service found in step 2 with setEnv, which leaves the other variables untouched, then redeploy each one with wait: true.",
+      "8. Confirm each dependent service is running and its latest deployment is done.",
+      "",
+      "Show the user the list of dependent services and the planned changes before step 4, and wait for confirmation. Never print the old or new password.",
+    ].join("\n");
+  },
+});
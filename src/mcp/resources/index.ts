@@ -0,0 +1,143 @@
+import type { Resource } from "@modelcontextprotocol/sdk/types.js";
+import type { DokployProject } from "../../types/dokploy.js";
+import apiClient from "../../utils/apiClient.js";
+import { authorizeToolCall } from "../../utils/oauth.js";
+import { getProjectLockManager } from "../../utils/projectLock.js";
+import type { ToolExtra } from "../tools/toolFactory.js";
+import { createResource, type ResourceDefinition } from "./resourceFactory.js";
+
+// Services exposed as dokploy://<name>/{<idParam>}, with the environment
+// field that lists them in project.all and what subscriptions watch
+const SERVICES = [
+  {
+    name: "application",
+    idParam: "applicationId",
+    listKey: "applications",
+    label: "application",
+    watch: { statusField: "applicationStatus", deployments: true },
+  },
+  {
+    name: "compose",
+    idParam: "composeId",
+    listKey: "compose",
+    label: "compose service",
+    watch: { statusField: "composeStatus", deployments: true },
+  },
+  {
+    name: "postgres",
+    idParam: "postgresId",
+    listKey: "postgres",
+    label: "PostgreSQL database",
+    watch: { statusField: "applicationStatus", deployments: false },
+  },
+  {
+    name: "mysql",
+    idParam: "mysqlId",
+    listKey: "mysql",
+    label: "MySQL database",
+    watch: { statusField: "applicationStatus", deployments: false },
+  },
+  {
+    name: "mariadb",
+    idParam: "mariadbId",
+    listKey: "mariadb",
+    label: "MariaDB database",
+    watch: { statusField: "applicationStatus", deployments: false },
+  },
+  {
+    name: "mongo",
+    idParam: "mongoId",
+    listKey: "mongo",
+    label: "MongoDB database",
+    watch: { statusField: "applicationStatus", deployments: false },
+  },
+  {
+    name: "redis",
+    idParam: "redisId",
+    listKey: "redis",
+    label: "Redis database",
+    watch: { statusField: "applicationStatus", deployments: false },
+  },
+] as const;
+
+/**
+ * Lists every project and service as a concrete resource. resources/list
+ * only needs one project.all call, so the project template lists them all.
+ * Respects the project lock and the token's dokploy_project:list scope.
+ */
+async function listDokployResources(extra: ToolExtra): Promise<Resource[]> {
+  if (authorizeToolCall(extra.authInfo, "dokploy_project", "list")) {
+    return [];
+  }
+
+  const { lockedProjectId } = getProjectLockManager().getConfig();
+  const response = await apiClient.get("/project.all");
+  const projects = ((response?.data ?? []) as DokployProject[]).filter(
+    (project) => !lockedProjectId || project.projectId === lockedProjectId
+  );
+
+  return projects.flatMap((project) => [
+    {
+      uri: `dokploy://project/${project.projectId}`,
+      name: project.name,
+      title: `Project ${project.name}`,
+      ...(project.description && { description: project.description }),
+      mimeType: "application/json",
+    },
+    ...(project.environments ?? []).flatMap((environment) =>
+      SERVICES.flatMap((service) =>
+        (
+          (environment[service.listKey] ?? []) as unknown as Record<
+            string,
+            unknown
+          >[]
+        ).map((item) => ({
+          uri: `dokploy://${service.name}/${String(item[service.idParam])}`,
+          name: String(item.name),
+          title: `${project.name} / ${environment.name} / ${String(item.name)}`,
+          description: `Dokploy ${service.label}`,
+          mimeType: "application/json",
+        }))
+      )
+    ),
+  ]);
+}
+
+export const allResources: ResourceDefinition[] = [
+  createResource({
+    name: "project",
+    uriTemplate: "dokploy://project/{projectId}",
+    title: "Dokploy Project",
+    description:
+      "A Dokploy project with its environments and services (project.one).",
+    mimeType: "application/json",
+    idParam: "projectId",
+    endpoint: "/project.one",
+    scope: { tool: "dokploy_project", action: "get" },
+    list: listDokployResources,
+  }),
+  ...SERVICES.map((service) =>
+    createResource({
+      name: service.name,
+      uriTemplate: `dokploy://${service.name}/{${service.idParam}}`,
+      title: `Dokploy ${service.label}`,
+      description: `Full details of a Dokploy ${service.label} (${service.name}.one).`,
+      mimeType: "application/json",
+      idParam: service.idParam,
+      endpoint: `/${service.name}.one`,
+      scope: { tool: `dokploy_${service.name}`, action: "get" },
+      watch: service.watch,
+    })
+  ),
+  createResource({
+    name: "application-traefik",
+    uriTemplate: "dokploy://application/{applicationId}/traefik",
+    title: "Application Traefik Config",
+    description:
+      "The Traefik configuration of a Dokploy application (application.readTraefikConfig).",
+    mimeType: "text/yaml",
+    idParam: "applicationId",
+    endpoint: "/application.readTraefikConfig",
+    scope: { tool: "dokploy_application", action: "readTraefikConfig" },
+  }),
+];
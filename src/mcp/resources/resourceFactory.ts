@@ -0,0 +1,137 @@
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+import apiClient from "../../utils/apiClient.js";
+import {
+  classifyDokployError,
+  DOKPLOY_ERROR_SUMMARIES,
+} from "../../utils/dokployErrors.js";
+import { createLogger } from "../../utils/logger.js";
+import { authorizeToolCall } from "../../utils/oauth.js";
+import {
+  validateProjectId,
+  validateResourceBelongsToProject,
+} from "../../utils/projectLock.js";
+import { redactResponse } from "../../utils/redaction.js";
+import type { ToolExtra } from "../tools/toolFactory.js";
+
+// Defines a Dokploy object readable as an MCP resource, e.g.
+// dokploy://application/{applicationId}
+export interface ResourceDefinitionInput {
+  name: string;
+  uriTemplate: string;
+  title: string;
+  description: string;
+  mimeType: "application/json" | "text/yaml";
+  // Template variable holding the Dokploy ID, also checked by the project lock
+  idParam: string;
+  // GET endpoint returning the resource, called with { [idParam]: id }
+  endpoint: string;
+  // Tool action whose OAuth scope grants reading this resource
+  scope: { tool: string; action: string };
+  // Lists concrete resources for resources/list
+  list?: (extra: ToolExtra) => Promise<Resource[]>;
+  // Makes the resource subscribable: changes to this status field (and to
+  // the latest deployment, if tracked) trigger resources/updated
+  watch?: { statusField: string; deployments: boolean };
+}
+
+export interface ResourceDefinition extends ResourceDefinitionInput {
+  read: (
+    uri: URL,
+    variables: Record<string, string | string[]>,
+    extra: Pick<ToolExtra, "authInfo">
+  ) => Promise<ReadResourceResult>;
+}
+
+const logger = createLogger("ResourceFactory");
+
+/**
+ * Gets the Dokploy ID from the variables matched out of a resource URI
+ */
+export function getResourceId(
+  definition: ResourceDefinitionInput,
+  variables: Record<string, string | string[]>
+): string {
+  const rawId = variables[definition.idParam];
+  return decodeURIComponent((Array.isArray(rawId) ? rawId[0] : rawId) ?? "");
+}
+
+export function createResource(
+  definition: ResourceDefinitionInput
+): ResourceDefinition {
+  return {
+    ...definition,
+    read: async (uri, variables, extra) => {
+      const id = getResourceId(definition, variables);
+      if (!id) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Missing ${definition.idParam} in resource URI ${uri.href}`
+        );
+      }
+
+      const denied =
+        authorizeToolCall(
+          extra.authInfo,
+          definition.scope.tool,
+          definition.scope.action
+        ) ??
+        (definition.idParam === "projectId"
+          ? validateProjectId(id)
+          : await validateResourceBelongsToProject(definition.idParam, id));
+      if (denied) {
+        throw new McpError(ErrorCode.InvalidRequest, denied);
+      }
+
+      logger.info(`Reading resource: ${uri.href}`, {
+        clientId: extra.authInfo?.clientId,
+      });
+
+      try {
+        const response = await apiClient.get(definition.endpoint, {
+          params: { [definition.idParam]: id },
+        });
+        if (response?.data === undefined || response.data === null) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Resource not found: ${uri.href}`
+          );
+        }
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: definition.mimeType,
+              text:
+                typeof response.data === "string"
+                  ? response.data
+                  : JSON.stringify(redactResponse(response.data), null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const dokployError = classifyDokployError(error);
+        if (!dokployError) {
+          throw error;
+        }
+
+        logger.error(`Failed to read resource: ${uri.href}`, {
+          error: dokployError.message,
+        });
+        throw new McpError(
+          dokployError.code === "not_found" ||
+          dokployError.code === "validation"
+            ? ErrorCode.InvalidParams
+            : ErrorCode.InternalError,
+          `${DOKPLOY_ERROR_SUMMARIES[dokployError.code]}: ${dokployError.message}`,
+          dokployError
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,237 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { IncomingHttpHeaders } from "node:http";
+import { fetchDeployments } from "../../utils/deployments.js";
+import { createLogger } from "../../utils/logger.js";
+import type { ToolExtra } from "../tools/toolFactory.js";
+import { allResources } from "./index.js";
+import { getResourceId, type ResourceDefinition } from "./resourceFactory.js";
+
+const logger = createLogger("ResourceSubscriptions");
+
+// Initialization headers a session can use to tune its own poller
+export const POLL_INTERVAL_HEADER = "x-dokploy-poll-interval";
+export const SUBSCRIPTION_LIMIT_HEADER = "x-dokploy-subscription-limit";
+
+export interface SubscriptionSettings {
+  intervalMs: number;
+  limit: number;
+}
+
+interface Subscription {
+  uri: URL;
+  resource: ResourceDefinition;
+  variables: Record<string, string | string[]>;
+  extra: Pick<ToolExtra, "authInfo">;
+  snapshot: string;
+}
+
+function parsePositiveInt(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Resolves the poller settings for a session. DOKPLOY_SUBSCRIPTION_INTERVAL_MS
+ * and DOKPLOY_SUBSCRIPTION_LIMIT set the defaults. HTTP sessions may ask for a
+ * different interval or a lower limit through initialization headers, but
+ * never poll faster than DOKPLOY_SUBSCRIPTION_MIN_INTERVAL_MS.
+ */
+export function getSubscriptionSettings(
+  headers: IncomingHttpHeaders = {}
+): SubscriptionSettings {
+  const defaultInterval =
+    parsePositiveInt(process.env.DOKPLOY_SUBSCRIPTION_INTERVAL_MS) ?? 15000;
+  const minInterval =
+    parsePositiveInt(process.env.DOKPLOY_SUBSCRIPTION_MIN_INTERVAL_MS) ?? 5000;
+  const maxLimit =
+    parsePositiveInt(process.env.DOKPLOY_SUBSCRIPTION_LIMIT) ?? 20;
+
+  const interval =
+    parsePositiveInt(headers[POLL_INTERVAL_HEADER]) ?? defaultInterval;
+  const limit =
+    parsePositiveInt(headers[SUBSCRIPTION_LIMIT_HEADER]) ?? maxLimit;
+
+  return {
+    intervalMs: Math.max(interval, minInterval),
+    limit: Math.min(limit, maxLimit),
+  };
+}
+
+/**
+ * Watches the resources a session subscribed to and sends
+ * notifications/resources/updated when a service's status or its latest
+ * deployment changes. One poller runs per session, and only while it has
+ * subscriptions.
+ */
+export class ResourceSubscriptionManager {
+  private subscriptions = new Map<string, Subscription>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly server: Server,
+    private readonly settings: SubscriptionSettings,
+    private readonly withConnection: <T>(fn: () => T) => T
+  ) {}
+
+  /**
+   * Declares the subscribe capability and handles resources/subscribe and
+   * resources/unsubscribe. Must be called before the server connects.
+   */
+  register(): void {
+    this.server.registerCapabilities({ resources: { subscribe: true } });
+
+    this.server.setRequestHandler(
+      SubscribeRequestSchema,
+      async (request, extra) => {
+        await this.withConnection(() =>
+          this.subscribe(request.params.uri, extra)
+        );
+        return {};
+      }
+    );
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+      this.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  private async subscribe(uri: string, extra: ToolExtra): Promise<void> {
+    if (this.subscriptions.has(uri)) {
+      return;
+    }
+
+    const match = allResources
+      .filter((resource) => resource.watch)
+      .map((resource) => ({
+        resource,
+        variables: new UriTemplate(resource.uriTemplate).match(uri),
+      }))
+      .find((candidate) => candidate.variables !== null);
+    if (!match?.variables) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Resource ${uri} does not support subscriptions; subscribe to an application, compose service or database`
+      );
+    }
+
+    if (this.subscriptions.size >= this.settings.limit) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Subscription limit reached: a session can watch at most ${this.settings.limit} resources`
+      );
+    }
+
+    const subscription: Subscription = {
+      uri: new URL(uri),
+      resource: match.resource,
+      variables: match.variables,
+      extra: extra.authInfo ? { authInfo: extra.authInfo } : {},
+      snapshot: "",
+    };
+
+    // Reading checks scopes and the project lock before anything is watched
+    subscription.snapshot = await this.takeSnapshot(subscription);
+    this.subscriptions.set(uri, subscription);
+    logger.info("Resource subscribed", {
+      uri,
+      clientId: extra.authInfo?.clientId,
+      subscriptions: this.subscriptions.size,
+    });
+
+    if (!this.timer) {
+      this.timer = setInterval(
+        () => void this.poll(),
+        this.settings.intervalMs
+      );
+      this.timer.unref();
+    }
+  }
+
+  private unsubscribe(uri: string): void {
+    if (this.subscriptions.delete(uri)) {
+      logger.info("Resource unsubscribed", { uri });
+    }
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Stops polling, e.g. when the session closes
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Captures the fields whose changes are worth a notification: the
+   * service status and the ID and status of its latest deployment
+   */
+  private async takeSnapshot(subscription: Subscription): Promise<string> {
+    const { resource, uri, variables, extra } = subscription;
+    const result = await resource.read(uri, variables, extra);
+    const content = result.contents[0];
+    const data =
+      typeof content?.text === "string" ? JSON.parse(content.text) : undefined;
+
+    let deployment: { deploymentId: string; status: string } | undefined;
+    if (resource.watch?.deployments) {
+      const [latest] = await fetchDeployments({
+        [resource.idParam]: getResourceId(resource, variables),
+      });
+      deployment = latest && {
+        deploymentId: latest.deploymentId,
+        status: latest.status,
+      };
+    }
+
+    return JSON.stringify({
+      status: resource.watch ? data?.[resource.watch.statusField] : undefined,
+      deployment,
+    });
+  }
+
+  private async poll(): Promise<void> {
+    // A slow Dokploy can make one round outlast the interval
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      for (const [uri, subscription] of this.subscriptions) {
+        try {
+          const snapshot = await this.withConnection(() =>
+            this.takeSnapshot(subscription)
+          );
+          if (snapshot === subscription.snapshot) {
+            continue;
+          }
+
+          subscription.snapshot = snapshot;
+          logger.info("Subscribed resource changed", { uri, snapshot });
+          await this.server.sendResourceUpdated({ uri });
+        } catch (error) {
+          logger.warn("Failed to poll subscribed resource", {
+            uri,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -27,7 +27,9 @@ export const applicationCreate = createTool({
       .string()
       .nullable()
       .optional()
-      .describe("The ID of the server where the application will be deployed."),
+      .describe(
+        "The ID of the remote server where the application will be deployed. Omit to deploy on the Dokploy host; use dokploy_server list to find server IDs."
+      ),
   }),
   annotations: {
     title: "Create Application",
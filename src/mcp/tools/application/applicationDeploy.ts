@@ -1,5 +1,9 @@
 import { z } from "zod";
 import apiClient from "../../../utils/apiClient.js";
+import {
+  deployAndWait,
+  createDeploymentWaitShape,
+} from "../../../utils/deploymentWait.js";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
 import { createTool } from "../toolFactory.js";
 
@@ -16,6 +20,7 @@ export const applicationDeploy = createTool({
       .string()
       .optional()
       .describe("Optional description for the deployment."),
+    ...createDeploymentWaitShape(),
   }),
   annotations: {
     title: "Deploy Application",
@@ -23,8 +28,19 @@ export const applicationDeploy = createTool({
     idempotentHint: false,
     openWorldHint: true,
   },
-  handler: async (input) => {
-    const response = await apiClient.post("/application.deploy", input);
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return deployAndWait(
+        `Deployment of application "${input.applicationId}"`,
+        { applicationId: input.applicationId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/application.deploy", payload)
+      );
+    }
+
+    const response = await apiClient.post("/application.deploy", payload);
 
     return ResponseFormatter.success(
       `Application "${input.applicationId}" deployment started successfully`,
@@ -1,5 +1,9 @@
 import { z } from "zod";
 import apiClient from "../../../utils/apiClient.js";
+import {
+  deployAndWait,
+  createDeploymentWaitShape,
+} from "../../../utils/deploymentWait.js";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
 import { createTool } from "../toolFactory.js";
 
@@ -19,6 +23,7 @@ export const applicationRedeploy = createTool({
       .string()
       .optional()
       .describe("Optional description for the redeployment."),
+    ...createDeploymentWaitShape(),
   }),
   annotations: {
     title: "Redeploy Application",
@@ -26,8 +31,19 @@ export const applicationRedeploy = createTool({
     idempotentHint: false,
     openWorldHint: true,
   },
-  handler: async (input) => {
-    const response = await apiClient.post("/application.redeploy", input);
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return deployAndWait(
+        `Redeployment of application "${input.applicationId}"`,
+        { applicationId: input.applicationId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/application.redeploy", payload)
+      );
+    }
+
+    const response = await apiClient.post("/application.redeploy", payload);
 
     return ResponseFormatter.success(
       `Application "${input.applicationId}" redeployment started successfully`,
@@ -1,5 +1,9 @@
 import { z } from "zod";
 import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
 import { createTool } from "../toolFactory.js";
 
@@ -9,6 +13,7 @@ export const applicationReload = createTool({
   schema: z.object({
     applicationId: z.string().describe("The ID of the application to reload."),
     appName: z.string().describe("The app name of the application to reload."),
+    ...createDeploymentWaitShape(),
   }),
   annotations: {
     title: "Reload Application",
@@ -16,8 +21,20 @@ export const applicationReload = createTool({
     idempotentHint: false,
     openWorldHint: true,
   },
-  handler: async (input) => {
-    const response = await apiClient.post("/application.reload", input);
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Reload of application "${input.applicationId}"`,
+        "/application.one",
+        { applicationId: input.applicationId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/application.reload", payload)
+      );
+    }
+
+    const response = await apiClient.post("/application.reload", payload);
 
     return ResponseFormatter.success(
       `Application "${input.applicationId}" reloaded successfully`,
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { getAuditLog, getAuditScope } from "../../../utils/audit.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const auditQuery = createTool({
+  name: "audit-query",
+  description:
+    "Searches the audit log for the caller's own tool calls against this Dokploy instance, newest first.",
+  schema: z.object({
+    tool: z
+      .string()
+      .optional()
+      .describe("Only return calls of this tool, e.g. dokploy_application."),
+    action: z
+      .string()
+      .optional()
+      .describe("Only return calls of this action, e.g. deploy."),
+    sessionId: z
+      .string()
+      .optional()
+      .describe("Only return calls made in this MCP session."),
+    status: z
+      .enum(["success", "error"])
+      .optional()
+      .describe("Only return calls that succeeded or failed."),
+    since: z
+      .string()
+      .datetime({ offset: true })
+      .optional()
+      .describe("Only return calls made at or after this ISO 8601 time."),
+    until: z
+      .string()
+      .datetime({ offset: true })
+      .optional()
+      .describe("Only return calls made at or before this ISO 8601 time."),
+    search: z
+      .string()
+      .optional()
+      .describe(
+        "Only return entries containing this text anywhere, e.g. a service ID."
+      ),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(500)
+      .default(50)
+      .describe("Maximum number of entries to return (default 50)."),
+  }),
+  annotations: {
+    title: "Query Audit Log",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input, extra) => {
+    const auditLog = getAuditLog();
+    if (!auditLog) {
+      return ResponseFormatter.error(
+        "Audit log disabled",
+        "Set DOKPLOY_AUDIT_LOG to a file path to record tool calls"
+      );
+    }
+
+    // Only the caller's own calls: entries with another Dokploy instance,
+    // API key or client identity belong to someone else
+    const entries = await auditLog.query({
+      ...input,
+      ...getAuditScope(extra),
+    });
+
+    return ResponseFormatter.success(
+      `Found ${entries.length} audit log entr${entries.length === 1 ? "y" : "ies"}`,
+      { entries }
+    );
+  },
+});
@@ -0,0 +1 @@
+export { auditQuery } from "./auditQuery.js";
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const backupCreate = createTool({
+  name: "backup-create",
+  description:
+    "Creates a scheduled backup for a PostgreSQL, MySQL, MariaDB or MongoDB database in Dokploy.",
+  schema: z.object({
+    schedule: z
+      .string()
+      .min(1)
+      .describe("Cron expression for the backup schedule (e.g. '0 3 * * *')."),
+    destinationId: z
+      .string()
+      .min(1)
+      .describe("The ID of the S3 destination to upload backups to."),
+    prefix: z
+      .string()
+      .min(1)
+      .describe("Path prefix for backup files inside the bucket."),
+    database: z
+      .string()
+      .min(1)
+      .describe("The name of the database to back up."),
+    enabled: z
+      .boolean()
+      .nullable()
+      .optional()
+      .describe("Whether the scheduled backup is active."),
+    keepLatestCount: z
+      .number()
+      .int()
+      .positive()
+      .nullable()
+      .optional()
+      .describe("Number of most recent backup files to keep."),
+    databaseType: z
+      .enum(["postgres", "mysql", "mariadb", "mongo"])
+      .describe("The type of database being backed up."),
+    postgresId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe(
+        "The ID of the PostgreSQL database (for databaseType postgres)."
+      ),
+    mysqlId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The ID of the MySQL database (for databaseType mysql)."),
+    mariadbId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The ID of the MariaDB database (for databaseType mariadb)."),
+    mongoId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The ID of the MongoDB database (for databaseType mongo)."),
+  }),
+  annotations: {
+    title: "Create Database Backup",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const serviceId = input[`${input.databaseType}Id`];
+    if (!serviceId) {
+      return ResponseFormatter.error(
+        "Missing database ID",
+        `${input.databaseType}Id is required when databaseType is "${input.databaseType}"`
+      );
+    }
+
+    const response = await apiClient.post("/backup.create", {
+      ...input,
+      backupType: "database",
+    });
+
+    return ResponseFormatter.success(
+      `Scheduled backup for ${input.databaseType} database "${serviceId}" created successfully`,
+      response.data
+    );
+  },
+});
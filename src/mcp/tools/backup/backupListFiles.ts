@@ -0,0 +1,43 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const backupListFiles = createTool({
+  name: "backup-listFiles",
+  description:
+    "Lists backup files stored in an S3 destination in Dokploy. Use search to filter by backup prefix.",
+  schema: z.object({
+    destinationId: z
+      .string()
+      .min(1)
+      .describe("The ID of the S3 destination to list files from."),
+    search: z
+      .string()
+      .optional()
+      .default("")
+      .describe(
+        "Path or prefix to search for, usually the backup prefix (e.g. 'my-db/')."
+      ),
+    serverId: z
+      .string()
+      .optional()
+      .describe("The ID of the remote server to list files from."),
+  }),
+  annotations: {
+    title: "List Backup Files",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.get("/backup.listBackupFiles", {
+      params: input,
+    });
+
+    return ResponseFormatter.success(
+      `Successfully listed backup files in destination "${input.destinationId}"`,
+      response.data
+    );
+  },
+});
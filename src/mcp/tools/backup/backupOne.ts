@@ -0,0 +1,38 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const backupOne = createTool({
+  name: "backup-one",
+  description: "Gets a specific scheduled backup by its ID in Dokploy.",
+  schema: z.object({
+    backupId: z
+      .string()
+      .min(1)
+      .describe("The ID of the scheduled backup to retrieve."),
+  }),
+  annotations: {
+    title: "Get Database Backup",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.get("/backup.one", {
+      params: { backupId: input.backupId },
+    });
+
+    if (!response?.data) {
+      return ResponseFormatter.error(
+        "Failed to fetch backup",
+        `Backup with ID "${input.backupId}" not found`
+      );
+    }
+
+    return ResponseFormatter.success(
+      `Successfully fetched backup "${input.backupId}"`,
+      response.data
+    );
+  },
+});
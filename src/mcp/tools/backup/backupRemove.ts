@@ -0,0 +1,30 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const backupRemove = createTool({
+  name: "backup-remove",
+  description:
+    "Removes a scheduled database backup from Dokploy. Existing backup files in the destination are kept.",
+  schema: z.object({
+    backupId: z
+      .string()
+      .min(1)
+      .describe("The ID of the scheduled backup to remove."),
+  }),
+  annotations: {
+    title: "Remove Database Backup",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/backup.remove", input);
+
+    return ResponseFormatter.success(
+      `Backup "${input.backupId}" removed successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+// Dokploy exposes one manual-run endpoint per database type
+const MANUAL_BACKUP_ENDPOINTS: Record<string, string> = {
+  postgres: "/backup.manualBackupPostgres",
+  mysql: "/backup.manualBackupMySql",
+  mariadb: "/backup.manualBackupMariadb",
+  mongo: "/backup.manualBackupMongo",
+};
+
+export const backupRunManual = createTool({
+  name: "backup-runManual",
+  description:
+    "Runs a scheduled database backup immediately in Dokploy and uploads the result to its destination.",
+  schema: z.object({
+    backupId: z
+      .string()
+      .min(1)
+      .describe("The ID of the scheduled backup to run now."),
+  }),
+  annotations: {
+    title: "Run Database Backup Now",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const backup = await apiClient.get("/backup.one", {
+      params: { backupId: input.backupId },
+    });
+    const databaseType = backup?.data?.databaseType as string | undefined;
+    const endpoint = databaseType && MANUAL_BACKUP_ENDPOINTS[databaseType];
+
+    if (!endpoint) {
+      return ResponseFormatter.error(
+        "Unsupported backup type",
+        `Backup "${input.backupId}" has database type "${databaseType ?? "unknown"}", which cannot be run manually`
+      );
+    }
+
+    const response = await apiClient.post(endpoint, input);
+
+    return ResponseFormatter.success(
+      `Manual ${databaseType} backup "${input.backupId}" completed successfully`,
+      response.data
+    );
+  },
+});
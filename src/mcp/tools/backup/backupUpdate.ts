@@ -0,0 +1,57 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const backupUpdate = createTool({
+  name: "backup-update",
+  description: "Updates a scheduled database backup in Dokploy.",
+  schema: z.object({
+    backupId: z
+      .string()
+      .min(1)
+      .describe("The ID of the scheduled backup to update."),
+    schedule: z
+      .string()
+      .min(1)
+      .describe("Cron expression for the backup schedule (e.g. '0 3 * * *')."),
+    destinationId: z
+      .string()
+      .min(1)
+      .describe("The ID of the S3 destination to upload backups to."),
+    prefix: z
+      .string()
+      .min(1)
+      .describe("Path prefix for backup files inside the bucket."),
+    database: z
+      .string()
+      .min(1)
+      .describe("The name of the database to back up."),
+    enabled: z
+      .boolean()
+      .nullable()
+      .optional()
+      .describe("Whether the scheduled backup is active."),
+    keepLatestCount: z
+      .number()
+      .int()
+      .positive()
+      .nullable()
+      .optional()
+      .describe("Number of most recent backup files to keep."),
+  }),
+  annotations: {
+    title: "Update Database Backup",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/backup.update", input);
+
+    return ResponseFormatter.success(
+      `Backup "${input.backupId}" updated successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,6 @@
+export { backupCreate } from "./backupCreate.js";
+export { backupListFiles } from "./backupListFiles.js";
+export { backupOne } from "./backupOne.js";
+export { backupRemove } from "./backupRemove.js";
+export { backupRunManual } from "./backupRunManual.js";
+export { backupUpdate } from "./backupUpdate.js";
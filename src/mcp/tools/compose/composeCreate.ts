@@ -0,0 +1,58 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeCreate = createTool({
+  name: "compose-create",
+  description: "Creates a new Docker Compose service in Dokploy.",
+  schema: z.object({
+    name: z.string().min(1).describe("The name of the compose service."),
+    appName: z
+      .string()
+      .optional()
+      .describe("The app name for the compose service."),
+    description: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("An optional description for the compose service."),
+    environmentId: z
+      .string()
+      .min(1)
+      .describe(
+        "The ID of the environment where the compose service will be created."
+      ),
+    composeType: z
+      .enum(["docker-compose", "stack"])
+      .optional()
+      .describe(
+        "The compose type: plain docker-compose or a Docker Swarm stack."
+      ),
+    composeFile: z
+      .string()
+      .optional()
+      .describe("Raw docker-compose.yml contents for the service."),
+    serverId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe(
+        "The ID of the server where the compose service will be deployed."
+      ),
+  }),
+  annotations: {
+    title: "Create Compose Service",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/compose.create", input);
+
+    return ResponseFormatter.success(
+      `Compose service "${input.name}" created successfully in environment "${input.environmentId}"`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeDelete = createTool({
+  name: "compose-delete",
+  description: "Deletes a Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z.string().describe("The ID of the compose service to delete."),
+    deleteVolumes: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Whether to also delete the volumes of the compose service."),
+  }),
+  annotations: {
+    title: "Delete Compose Service",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/compose.delete", input);
+
+    return ResponseFormatter.success(
+      `Compose service "${input.composeId}" deleted successfully`,
+      response.data
+    );
+  },
+});
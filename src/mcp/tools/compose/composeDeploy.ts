@@ -0,0 +1,50 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  deployAndWait,
+  createDeploymentWaitShape,
+} from "../../../utils/deploymentWait.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeDeploy = createTool({
+  name: "compose-deploy",
+  description: "Deploys a Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .min(1)
+      .describe("The ID of the compose service to deploy."),
+    title: z.string().optional().describe("Optional title for the deployment."),
+    description: z
+      .string()
+      .optional()
+      .describe("Optional description for the deployment."),
+    ...createDeploymentWaitShape(),
+  }),
+  annotations: {
+    title: "Deploy Compose Service",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return deployAndWait(
+        `Deployment of compose service "${input.composeId}"`,
+        { composeId: input.composeId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/compose.deploy", payload)
+      );
+    }
+
+    const response = await apiClient.post("/compose.deploy", payload);
+
+    return ResponseFormatter.success(
+      `Compose service "${input.composeId}" deployment started successfully`,
+      response.data
+    );
+  },
+});
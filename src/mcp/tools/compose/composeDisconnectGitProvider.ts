@@ -0,0 +1,34 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeDisconnectGitProvider = createTool({
+  name: "compose-disconnectGitProvider",
+  description:
+    "Disconnects Git provider configuration from a Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .describe(
+        "The ID of the compose service to disconnect Git provider from."
+      ),
+  }),
+  annotations: {
+    title: "Disconnect Compose Git Provider",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post(
+      "/compose.disconnectGitProvider",
+      input
+    );
+
+    return ResponseFormatter.success(
+      `Git provider for compose service "${input.composeId}" disconnected successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeLoadServices = createTool({
+  name: "compose-loadServices",
+  description:
+    "Lists the service names defined in a Docker Compose service's compose file in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .min(1)
+      .describe("The ID of the compose service to load services for."),
+    type: z
+      .enum(["fetch", "cache"])
+      .optional()
+      .default("cache")
+      .describe(
+        "Use 'fetch' to re-read the compose file from its source, or 'cache' to use the last fetched copy."
+      ),
+  }),
+  annotations: {
+    title: "Load Compose Services",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.get("/compose.loadServices", {
+      params: { composeId: input.composeId, type: input.type },
+    });
+
+    return ResponseFormatter.success(
+      `Successfully loaded services for compose "${input.composeId}"`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,30 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeMove = createTool({
+  name: "compose-move",
+  description:
+    "Moves a Docker Compose service to a different environment in Dokploy.",
+  schema: z.object({
+    composeId: z.string().describe("The ID of the compose service to move."),
+    targetEnvironmentId: z
+      .string()
+      .describe("The ID of the destination environment."),
+  }),
+  annotations: {
+    title: "Move Compose Service",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/compose.move", input);
+
+    return ResponseFormatter.success(
+      `Compose service "${input.composeId}" moved to environment "${input.targetEnvironmentId}" successfully`,
+      response.data
+    );
+  },
+});
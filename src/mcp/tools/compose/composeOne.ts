@@ -0,0 +1,38 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeOne = createTool({
+  name: "compose-one",
+  description: "Gets a specific Docker Compose service by its ID in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .min(1)
+      .describe("The ID of the compose service to retrieve."),
+  }),
+  annotations: {
+    title: "Get Compose Service",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.get("/compose.one", {
+      params: { composeId: input.composeId },
+    });
+
+    if (!response?.data) {
+      return ResponseFormatter.error(
+        "Failed to fetch compose service",
+        `Compose service with ID "${input.composeId}" not found`
+      );
+    }
+
+    return ResponseFormatter.success(
+      `Successfully fetched compose service "${input.composeId}"`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  deployAndWait,
+  createDeploymentWaitShape,
+} from "../../../utils/deploymentWait.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeRedeploy = createTool({
+  name: "compose-redeploy",
+  description: "Redeploys a Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .min(1)
+      .describe("The ID of the compose service to redeploy."),
+    title: z
+      .string()
+      .optional()
+      .describe("Optional title for the redeployment."),
+    description: z
+      .string()
+      .optional()
+      .describe("Optional description for the redeployment."),
+    ...createDeploymentWaitShape(),
+  }),
+  annotations: {
+    title: "Redeploy Compose Service",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return deployAndWait(
+        `Redeployment of compose service "${input.composeId}"`,
+        { composeId: input.composeId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/compose.redeploy", payload)
+      );
+    }
+
+    const response = await apiClient.post("/compose.redeploy", payload);
+
+    return ResponseFormatter.success(
+      `Compose service "${input.composeId}" redeployment started successfully`,
+      response.data
+    );
+  },
+});
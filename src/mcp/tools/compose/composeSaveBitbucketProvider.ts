@@ -0,0 +1,63 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeSaveBitbucketProvider = createTool({
+  name: "compose-saveBitbucketProvider",
+  description:
+    "Saves Bitbucket provider configuration for a Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .describe(
+        "The ID of the compose service to save Bitbucket provider for."
+      ),
+    bitbucketRepository: z
+      .string()
+      .nullable()
+      .describe("The Bitbucket repository name."),
+    bitbucketOwner: z
+      .string()
+      .nullable()
+      .describe("The Bitbucket repository owner."),
+    bitbucketBranch: z
+      .string()
+      .nullable()
+      .describe("The branch to use from the repository."),
+    bitbucketId: z
+      .string()
+      .nullable()
+      .describe("The Bitbucket integration ID."),
+    composePath: z
+      .string()
+      .optional()
+      .describe("Path to the compose file inside the repository."),
+    watchPaths: z
+      .array(z.string())
+      .nullable()
+      .optional()
+      .describe("Array of paths to watch for changes."),
+    enableSubmodules: z
+      .boolean()
+      .optional()
+      .describe("Whether to enable submodules."),
+  }),
+  annotations: {
+    title: "Save Compose Bitbucket Provider",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/compose.update", {
+      ...input,
+      sourceType: "bitbucket",
+    });
+
+    return ResponseFormatter.success(
+      `Bitbucket provider for compose service "${input.composeId}" saved successfully`,
+      response.data
+    );
+  },
+});
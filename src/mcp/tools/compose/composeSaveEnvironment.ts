@@ -0,0 +1,36 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeSaveEnvironment = createTool({
+  name: "compose-saveEnvironment",
+  description:
+    "Saves environment variables for a Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .describe("The ID of the compose service to save environment for."),
+    env: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("Environment variables to save for the compose service."),
+  }),
+  annotations: {
+    title: "Save Compose Environment",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    // Dokploy has no dedicated compose.saveEnvironment endpoint; the env
+    // blob is stored through compose.update like in the web UI.
+    const response = await apiClient.post("/compose.update", input);
+
+    return ResponseFormatter.success(
+      `Environment variables for compose service "${input.composeId}" saved successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeSaveGitProvider = createTool({
+  name: "compose-saveGitProvider",
+  description:
+    "Saves custom Git provider configuration for a Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .describe("The ID of the compose service to save Git provider for."),
+    customGitUrl: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The custom Git repository URL."),
+    customGitBranch: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The branch to use from the repository."),
+    customGitSSHKeyId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The SSH key ID for Git authentication."),
+    composePath: z
+      .string()
+      .optional()
+      .describe("Path to the compose file inside the repository."),
+    watchPaths: z
+      .array(z.string())
+      .nullable()
+      .optional()
+      .describe("Array of paths to watch for changes."),
+    enableSubmodules: z
+      .boolean()
+      .optional()
+      .describe("Whether to enable submodules."),
+  }),
+  annotations: {
+    title: "Save Compose Git Provider",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/compose.update", {
+      ...input,
+      sourceType: "git",
+    });
+
+    return ResponseFormatter.success(
+      `Git provider for compose service "${input.composeId}" saved successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeSaveGiteaProvider = createTool({
+  name: "compose-saveGiteaProvider",
+  description:
+    "Saves Gitea provider configuration for a Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .describe("The ID of the compose service to save Gitea provider for."),
+    giteaRepository: z
+      .string()
+      .nullable()
+      .describe("The Gitea repository name."),
+    giteaOwner: z.string().nullable().describe("The Gitea repository owner."),
+    giteaBranch: z
+      .string()
+      .nullable()
+      .describe("The branch to use from the repository."),
+    giteaId: z.string().nullable().describe("The Gitea integration ID."),
+    composePath: z
+      .string()
+      .optional()
+      .describe("Path to the compose file inside the repository."),
+    watchPaths: z
+      .array(z.string())
+      .nullable()
+      .optional()
+      .describe("Array of paths to watch for changes."),
+    enableSubmodules: z
+      .boolean()
+      .optional()
+      .describe("Whether to enable submodules."),
+  }),
+  annotations: {
+    title: "Save Compose Gitea Provider",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/compose.update", {
+      ...input,
+      sourceType: "gitea",
+    });
+
+    return ResponseFormatter.success(
+      `Gitea provider for compose service "${input.composeId}" saved successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeSaveGithubProvider = createTool({
+  name: "compose-saveGithubProvider",
+  description:
+    "Saves GitHub provider configuration for a Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .describe("The ID of the compose service to save GitHub provider for."),
+    repository: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The GitHub repository name."),
+    branch: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The branch to use from the repository."),
+    owner: z.string().nullable().describe("The GitHub repository owner."),
+    composePath: z
+      .string()
+      .optional()
+      .describe("Path to the compose file inside the repository."),
+    githubId: z.string().nullable().describe("The GitHub integration ID."),
+    watchPaths: z
+      .array(z.string())
+      .nullable()
+      .optional()
+      .describe("Paths to watch for changes."),
+    enableSubmodules: z
+      .boolean()
+      .optional()
+      .describe("Whether to enable git submodules."),
+    triggerType: z
+      .enum(["push", "tag"])
+      .optional()
+      .default("push")
+      .describe("The trigger type for deployments."),
+  }),
+  annotations: {
+    title: "Save Compose GitHub Provider",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/compose.update", {
+      ...input,
+      sourceType: "github",
+    });
+
+    return ResponseFormatter.success(
+      `GitHub provider for compose service "${input.composeId}" saved successfully`,
+      response.data
+    );
+  },
+});
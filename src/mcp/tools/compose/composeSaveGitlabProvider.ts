@@ -0,0 +1,60 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeSaveGitlabProvider = createTool({
+  name: "compose-saveGitlabProvider",
+  description:
+    "Saves GitLab provider configuration for a Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .describe("The ID of the compose service to save GitLab provider for."),
+    gitlabBranch: z
+      .string()
+      .nullable()
+      .describe("The branch to use from the repository."),
+    gitlabOwner: z.string().nullable().describe("The GitLab repository owner."),
+    gitlabRepository: z
+      .string()
+      .nullable()
+      .describe("The GitLab repository name."),
+    gitlabId: z.string().nullable().describe("The GitLab integration ID."),
+    gitlabProjectId: z.number().nullable().describe("The GitLab project ID."),
+    gitlabPathNamespace: z
+      .string()
+      .nullable()
+      .describe("The GitLab path namespace."),
+    composePath: z
+      .string()
+      .optional()
+      .describe("Path to the compose file inside the repository."),
+    watchPaths: z
+      .array(z.string())
+      .nullable()
+      .optional()
+      .describe("Paths to watch for changes."),
+    enableSubmodules: z
+      .boolean()
+      .optional()
+      .describe("Whether to enable git submodules."),
+  }),
+  annotations: {
+    title: "Save Compose GitLab Provider",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/compose.update", {
+      ...input,
+      sourceType: "gitlab",
+    });
+
+    return ResponseFormatter.success(
+      `GitLab provider for compose service "${input.composeId}" saved successfully`,
+      response.data
+    );
+  },
+});
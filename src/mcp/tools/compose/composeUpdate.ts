@@ -0,0 +1,104 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const composeUpdate = createTool({
+  name: "compose-update",
+  description: "Updates an existing Docker Compose service in Dokploy.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .min(1)
+      .describe("The ID of the compose service to update."),
+    name: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("The new name of the compose service."),
+    appName: z
+      .string()
+      .optional()
+      .describe("The new app name of the compose service."),
+    description: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The new description for the compose service."),
+    env: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("Environment variables for the compose service."),
+    composeFile: z
+      .string()
+      .optional()
+      .describe("Raw docker-compose.yml contents."),
+    composeType: z
+      .enum(["docker-compose", "stack"])
+      .optional()
+      .describe("The compose type: docker-compose or stack."),
+    composePath: z
+      .string()
+      .optional()
+      .describe("Path to the compose file inside the repository."),
+    command: z
+      .string()
+      .optional()
+      .describe("Custom command used to run the compose stack."),
+    sourceType: z
+      .enum(["git", "github", "gitlab", "bitbucket", "gitea", "raw"])
+      .optional()
+      .describe("The source type for the compose file."),
+    suffix: z
+      .string()
+      .optional()
+      .describe("Suffix appended to service names when randomizing."),
+    randomize: z
+      .boolean()
+      .optional()
+      .describe("Whether to randomize service names."),
+    isolatedDeployment: z
+      .boolean()
+      .optional()
+      .describe("Whether to deploy the stack in an isolated network."),
+    watchPaths: z
+      .array(z.string())
+      .nullable()
+      .optional()
+      .describe("Paths to watch for changes."),
+    enableSubmodules: z
+      .boolean()
+      .optional()
+      .describe("Whether to enable git submodules."),
+    triggerType: z
+      .enum(["push", "tag"])
+      .nullable()
+      .optional()
+      .describe("The trigger type for automatic deployments."),
+    autoDeploy: z
+      .boolean()
+      .nullable()
+      .optional()
+      .describe("Whether automatic deployments are enabled."),
+    composeStatus: z
+      .enum(["idle", "running", "done", "error"])
+      .optional()
+      .describe("The status of the compose service."),
+    environmentId: z.string().optional().describe("The ID of the environment."),
+  }),
+  annotations: {
+    title: "Update Compose Service",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/compose.update", input);
+
+    return ResponseFormatter.success(
+      `Compose service "${input.composeId}" updated successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,17 @@
+export { composeCreate } from "./composeCreate.js";
+export { composeDelete } from "./composeDelete.js";
+export { composeDeploy } from "./composeDeploy.js";
+export { composeDisconnectGitProvider } from "./composeDisconnectGitProvider.js";
+export { composeLoadServices } from "./composeLoadServices.js";
+export { composeMove } from "./composeMove.js";
+export { composeOne } from "./composeOne.js";
+export { composeRedeploy } from "./composeRedeploy.js";
+export { composeSaveBitbucketProvider } from "./composeSaveBitbucketProvider.js";
+export { composeSaveEnvironment } from "./composeSaveEnvironment.js";
+export { composeSaveGiteaProvider } from "./composeSaveGiteaProvider.js";
+export { composeSaveGithubProvider } from "./composeSaveGithubProvider.js";
+export { composeSaveGitlabProvider } from "./composeSaveGitlabProvider.js";
+export { composeSaveGitProvider } from "./composeSaveGitProvider.js";
+export { composeStart } from "./composeStart.js";
+export { composeStop } from "./composeStop.js";
+export { composeUpdate } from "./composeUpdate.js";
@@ -1,7 +1,8 @@
 import { z } from "zod";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
-import { createTool } from "../toolFactory.js";
+import { createActionParams, createTool } from "../toolFactory.js";
 import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+import { dryRunSchema, previewAction } from "../../../utils/dryRun.js";
 
 // Import all individual application tool schemas for reuse
 import { applicationCancelDeployment } from "../application/applicationCancelDeployment.js";
@@ -30,6 +31,7 @@ import { applicationStart } from "../application/applicationStart.js";
 import { applicationStop } from "../application/applicationStop.js";
 import { applicationUpdate } from "../application/applicationUpdate.js";
 import { applicationUpdateTraefikConfig } from "../application/applicationUpdateTraefikConfig.js";
+import { applicationEnvTools } from "../env/index.js";
 
 // Import all individual domain tool schemas for reuse
 import { domainByApplicationId } from "../domain/domainByApplicationId.js";
@@ -42,15 +44,55 @@ import { domainOne } from "../domain/domainOne.js";
 import { domainUpdate } from "../domain/domainUpdate.js";
 import { domainValidateDomain } from "../domain/domainValidateDomain.js";
 
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  create: applicationCreate,
+  delete: applicationDelete,
+  deploy: applicationDeploy,
+  start: applicationStart,
+  stop: applicationStop,
+  update: applicationUpdate,
+  get: applicationOne,
+  redeploy: applicationRedeploy,
+  reload: applicationReload,
+  move: applicationMove,
+  cancelDeployment: applicationCancelDeployment,
+  cleanQueues: applicationCleanQueues,
+  disconnectGitProvider: applicationDisconnectGitProvider,
+  markRunning: applicationMarkRunning,
+  readAppMonitoring: applicationReadAppMonitoring,
+  readTraefikConfig: applicationReadTraefikConfig,
+  refreshToken: applicationRefreshToken,
+  saveBitbucketProvider: applicationSaveBitbucketProvider,
+  saveBuildType: applicationSaveBuildType,
+  saveDockerProvider: applicationSaveDockerProvider,
+  saveEnvironment: applicationSaveEnvironment,
+  ...applicationEnvTools,
+  saveGitProvider: applicationSaveGitProvider,
+  saveGiteaProvider: applicationSaveGiteaProvider,
+  saveGithubProvider: applicationSaveGithubProvider,
+  saveGitlabProvider: applicationSaveGitlabProvider,
+  updateTraefikConfig: applicationUpdateTraefikConfig,
+  domainCreate: domainCreate,
+  domainDelete: domainDelete,
+  domainUpdate: domainUpdate,
+  domainGet: domainOne,
+  domainByApplicationId: domainByApplicationId,
+  domainByComposeId: domainByComposeId,
+  domainGenerateDomain: domainGenerateDomain,
+  domainCanGenerateTraefikMeDomains: domainCanGenerateTraefikMeDomains,
+  domainValidate: domainValidateDomain,
+};
+
 export const dokployApplication = createTool({
   name: "dokploy_application",
   description:
-    "Consolidated tool for managing Dokploy applications and domains. Supports multiple actions for applications: create, delete, deploy, start, stop, update, get, redeploy, reload, move, cancelDeployment, cleanQueues, disconnectGitProvider, markRunning, readAppMonitoring, readTraefikConfig, refreshToken, saveBitbucketProvider, saveBuildType, saveDockerProvider, saveEnvironment, saveGitProvider, saveGiteaProvider, saveGithubProvider, saveGitlabProvider, updateTraefikConfig. Supports domain actions: domainCreate, domainDelete, domainUpdate, domainGet, domainByApplicationId, domainByComposeId, domainGenerateDomain, domainCanGenerateTraefikMeDomains, domainValidate.",
+    "Consolidated tool for managing Dokploy applications and domains. Supports multiple actions for applications: create, delete, deploy, start, stop, update, get, redeploy, reload, move, cancelDeployment, cleanQueues, disconnectGitProvider, markRunning, readAppMonitoring, readTraefikConfig, refreshToken, saveBitbucketProvider, saveBuildType, saveDockerProvider, saveEnvironment, listEnv, getEnv, setEnv, unsetEnv, mergeEnv, saveGitProvider, saveGiteaProvider, saveGithubProvider, saveGitlabProvider, updateTraefikConfig. Supports domain actions: domainCreate, domainDelete, domainUpdate, domainGet, domainByApplicationId, domainByComposeId, domainGenerateDomain, domainCanGenerateTraefikMeDomains, domainValidate.",
   schema: z.object({
     action: z
       .enum([
         "create",
-        "delete", 
+        "delete",
         "deploy",
         "start",
         "stop",
@@ -70,6 +112,11 @@ export const dokployApplication = createTool({
         "saveBuildType",
         "saveDockerProvider",
         "saveEnvironment",
+        "listEnv",
+        "getEnv",
+        "setEnv",
+        "unsetEnv",
+        "mergeEnv",
         "saveGitProvider",
         "saveGiteaProvider",
         "saveGithubProvider",
@@ -87,49 +134,53 @@ export const dokployApplication = createTool({
       ])
       .describe(
         `The action to perform. Required for all operations.\n\n` +
-        `APPLICATION ACTIONS:\n` +
-        `• create: Creates new application (requires: name, environmentId)\n` +
-        `• get: Gets application details (requires: applicationId)\n` +
-        `• update: Updates application config (requires: applicationId)\n` +
-        `• delete: Deletes application (requires: applicationId)\n` +
-        `• deploy: Deploys application (requires: applicationId)\n` +
-        `• start/stop: Start/stop application (requires: applicationId)\n` +
-        `• redeploy: Redeploys application (requires: applicationId)\n` +
-        `• reload: Reloads application (requires: applicationId)\n` +
-        `• move: Move to different environment (requires: applicationId, environmentId)\n` +
-        `• cancelDeployment: Cancel ongoing deployment (requires: applicationId)\n` +
-        `• cleanQueues: Clean deployment queues (requires: applicationId)\n` +
-        `• refreshToken: Refresh access token (requires: applicationId)\n\n` +
-        `DOMAIN ACTIONS:\n` +
-        `• domainCreate: Create domain (requires: host, applicationId OR composeId)\n` +
-        `• domainGet: Get domain details (requires: domainId)\n` +
-        `• domainByApplicationId: List domains for app (requires: applicationId)\n` +
-        `• domainByComposeId: List domains for compose (requires: composeId)`
+          `APPLICATION ACTIONS:\n` +
+          `• create: Creates new application (requires: name, environmentId)\n` +
+          `• get: Gets application details (requires: applicationId)\n` +
+          `• update: Updates application config (requires: applicationId)\n` +
+          `• delete: Deletes application (requires: applicationId)\n` +
+          `• deploy: Deploys application (requires: applicationId)\n` +
+          `• start/stop: Start/stop application (requires: applicationId)\n` +
+          `• redeploy: Redeploys application (requires: applicationId)\n` +
+          `• reload: Reloads application (requires: applicationId)\n` +
+          `• move: Move to different environment (requires: applicationId, environmentId)\n` +
+          `• cancelDeployment: Cancel ongoing deployment (requires: applicationId)\n` +
+          `• cleanQueues: Clean deployment queues (requires: applicationId)\n` +
+          `• refreshToken: Refresh access token (requires: applicationId)\n` +
+          `• listEnv/getEnv: List variables with masked values, or read one (requires: applicationId; key for getEnv)\n` +
+          `• setEnv/unsetEnv/mergeEnv: Change single variables, keeping comments and all others (requires: applicationId; key and value, keys, or variables)\n\n` +
+          `DOMAIN ACTIONS:\n` +
+          `• domainCreate: Create domain (requires: host, applicationId OR composeId)\n` +
+          `• domainGet: Get domain details (requires: domainId)\n` +
+          `• domainByApplicationId: List domains for app (requires: applicationId)\n` +
+          `• domainByComposeId: List domains for compose (requires: composeId)`
       ),
-    params: z
-      .record(z.any())
+    params: createActionParams(actionMap)
       .optional()
       .describe(
         `Parameters for the specified action. Required for all actions except list-type operations.\n\n` +
-        `COMMON REQUIRED PARAMETERS:\n` +
-        `• applicationId: The unique identifier of the application (required for get, update, delete, deploy, start, stop, etc.)\n` +
-        `• name: Application name (required for create)\n` +
-        `• environmentId: Environment ID where app operates (required for create, move)\n` +
-        `• host: Domain hostname (required for domainCreate)\n\n` +
-        `EXAMPLE USAGE:\n` +
-        `Get application: {"action": "get", "params": {"applicationId": "app-123"}}\n` +
-        `Create app: {"action": "create", "params": {"name": "My App", "environmentId": "env-456"}}\n` +
-        `Deploy app: {"action": "deploy", "params": {"applicationId": "app-123"}}`
+          `COMMON REQUIRED PARAMETERS:\n` +
+          `• applicationId: The unique identifier of the application (required for get, update, delete, deploy, start, stop, etc.)\n` +
+          `• name: Application name (required for create)\n` +
+          `• environmentId: Environment ID where app operates (required for create, move)\n` +
+          `• host: Domain hostname (required for domainCreate)\n` +
+          `• wait: Block until deploy/redeploy/reload finishes, sending progress notifications (optional; also waitTimeoutSeconds, logLines)\n\n` +
+          `EXAMPLE USAGE:\n` +
+          `Get application: {"action": "get", "params": {"applicationId": "app-123"}}\n` +
+          `Create app: {"action": "create", "params": {"name": "My App", "environmentId": "env-456"}}\n` +
+          `Deploy app: {"action": "deploy", "params": {"applicationId": "app-123"}}`
       ),
+    dryRun: dryRunSchema,
   }),
   annotations: {
     title: "Manage Dokploy Application",
-    destructiveHint: false, // Will be dynamically set based on action
+    destructiveHint: true,
     idempotentHint: false,
     openWorldHint: true,
   },
-  handler: async (input) => {
-    const { action, params = {} } = input;
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {}, dryRun } = input;
 
     // Enforce project lock restrictions before executing the action
     const lockError = await enforceProjectLock(params);
@@ -137,45 +188,6 @@ export const dokployApplication = createTool({
       return lockError;
     }
 
-    // Map actions to their corresponding tool handlers
-    const actionMap: Record<string, any> = {
-      create: applicationCreate,
-      delete: applicationDelete,
-      deploy: applicationDeploy,
-      start: applicationStart,
-      stop: applicationStop,
-      update: applicationUpdate,
-      get: applicationOne,
-      redeploy: applicationRedeploy,
-      reload: applicationReload,
-      move: applicationMove,
-      cancelDeployment: applicationCancelDeployment,
-      cleanQueues: applicationCleanQueues,
-      disconnectGitProvider: applicationDisconnectGitProvider,
-      markRunning: applicationMarkRunning,
-      readAppMonitoring: applicationReadAppMonitoring,
-      readTraefikConfig: applicationReadTraefikConfig,
-      refreshToken: applicationRefreshToken,
-      saveBitbucketProvider: applicationSaveBitbucketProvider,
-      saveBuildType: applicationSaveBuildType,
-      saveDockerProvider: applicationSaveDockerProvider,
-      saveEnvironment: applicationSaveEnvironment,
-      saveGitProvider: applicationSaveGitProvider,
-      saveGiteaProvider: applicationSaveGiteaProvider,
-      saveGithubProvider: applicationSaveGithubProvider,
-      saveGitlabProvider: applicationSaveGitlabProvider,
-      updateTraefikConfig: applicationUpdateTraefikConfig,
-      domainCreate: domainCreate,
-      domainDelete: domainDelete,
-      domainUpdate: domainUpdate,
-      domainGet: domainOne,
-      domainByApplicationId: domainByApplicationId,
-      domainByComposeId: domainByComposeId,
-      domainGenerateDomain: domainGenerateDomain,
-      domainCanGenerateTraefikMeDomains: domainCanGenerateTraefikMeDomains,
-      domainValidate: domainValidateDomain,
-    };
-
     const tool = actionMap[action];
     if (!tool) {
       return ResponseFormatter.error(
@@ -186,7 +198,17 @@ export const dokployApplication = createTool({
 
     // Call the corresponding tool handler with the provided params
     try {
-      return await tool.handler(params);
+      if (dryRun) {
+        return await previewAction(
+          "dokploy_application",
+          action,
+          tool,
+          params,
+          extra
+        );
+      }
+
+      return await tool.handler(params, extra);
     } catch (error) {
       return ResponseFormatter.error(
         `Failed to execute action "${action}"`,
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createActionParams, createTool } from "../toolFactory.js";
+import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+
+// Import all individual audit tool schemas for reuse
+import { auditQuery } from "../audit/auditQuery.js";
+
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  query: auditQuery,
+};
+
+export const dokployAudit = createTool({
+  name: "dokploy_audit",
+  description:
+    "Consolidated tool for reviewing the audit log of tool calls, for change management. Supports one action: query.",
+  schema: z.object({
+    action: z
+      .enum(["query"])
+      .describe(
+        `The action to perform on the audit log.\n\n` +
+          `• query: Search your own recent tool calls against this Dokploy instance, newest first (all filters optional)`
+      ),
+    params: createActionParams(actionMap)
+      .optional()
+      .describe(
+        `Parameters for the specified action.\n\n` +
+          `COMMON PARAMETERS:\n` +
+          `• tool/action: Only calls of this tool or action\n` +
+          `• sessionId: Only calls made in this MCP session\n` +
+          `• status: success or error\n` +
+          `• since/until: ISO 8601 time range\n` +
+          `• search: Text anywhere in the entry, e.g. a service ID\n` +
+          `• limit: Maximum number of entries (default 50, max 500)\n\n` +
+          `EXAMPLE USAGE:\n` +
+          `Recent deletions: {"action": "query", "params": {"action": "delete", "since": "2025-01-01T00:00:00Z"}}\n` +
+          `History of a service: {"action": "query", "params": {"search": "app-123"}}`
+      ),
+  }),
+  annotations: {
+    title: "Review Audit Log",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {} } = input;
+
+    // Enforce project lock restrictions before executing the action
+    const lockError = await enforceProjectLock(params);
+    if (lockError) {
+      return lockError;
+    }
+
+    const tool = actionMap[action];
+
+    if (!tool) {
+      return ResponseFormatter.error(
+        "Invalid action",
+        `Action "${action}" is not supported for the audit log`
+      );
+    }
+
+    // Call the corresponding tool handler with the provided params
+    try {
+      return await tool.handler(params, extra);
+    } catch (error) {
+      return ResponseFormatter.error(
+        `Failed to execute audit action "${action}"`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  },
+});
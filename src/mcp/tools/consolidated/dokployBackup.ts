@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createActionParams, createTool } from "../toolFactory.js";
+import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+import { dryRunSchema, previewAction } from "../../../utils/dryRun.js";
+
+// Import all individual backup and destination tool schemas for reuse
+import { backupCreate } from "../backup/backupCreate.js";
+import { backupListFiles } from "../backup/backupListFiles.js";
+import { backupOne } from "../backup/backupOne.js";
+import { backupRemove } from "../backup/backupRemove.js";
+import { backupRunManual } from "../backup/backupRunManual.js";
+import { backupUpdate } from "../backup/backupUpdate.js";
+import { destinationAll } from "../destination/destinationAll.js";
+import { destinationCreate } from "../destination/destinationCreate.js";
+import { destinationOne } from "../destination/destinationOne.js";
+import { destinationRemove } from "../destination/destinationRemove.js";
+import { destinationTestConnection } from "../destination/destinationTestConnection.js";
+import { destinationUpdate } from "../destination/destinationUpdate.js";
+
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  destinationCreate: destinationCreate,
+  destinationTestConnection: destinationTestConnection,
+  destinationList: destinationAll,
+  destinationGet: destinationOne,
+  destinationUpdate: destinationUpdate,
+  destinationRemove: destinationRemove,
+  create: backupCreate,
+  get: backupOne,
+  update: backupUpdate,
+  remove: backupRemove,
+  runManual: backupRunManual,
+  listFiles: backupListFiles,
+};
+
+export const dokployBackup = createTool({
+  name: "dokploy_backup",
+  description:
+    "Consolidated tool for managing Dokploy database backups and their S3 destinations. Supports multiple actions: destinationCreate, destinationTestConnection, destinationList, destinationGet, destinationUpdate, destinationRemove, create, get, update, remove, runManual, listFiles.",
+  schema: z.object({
+    action: z
+      .enum([
+        "destinationCreate",
+        "destinationTestConnection",
+        "destinationList",
+        "destinationGet",
+        "destinationUpdate",
+        "destinationRemove",
+        "create",
+        "get",
+        "update",
+        "remove",
+        "runManual",
+        "listFiles",
+      ])
+      .describe(
+        `The action to perform on backups or destinations.\n\n` +
+          `• destinationCreate: Create an S3 destination (requires: name, accessKey, secretAccessKey, bucket, region, endpoint)\n` +
+          `• destinationTestConnection: Verify S3 credentials without saving (requires: same fields as destinationCreate)\n` +
+          `• destinationList: List all S3 destinations (no params required)\n` +
+          `• destinationGet: Get destination details (requires: destinationId)\n` +
+          `• destinationUpdate: Update a destination (requires: destinationId and all destination fields)\n` +
+          `• destinationRemove: Delete a destination (requires: destinationId)\n` +
+          `• create: Schedule a database backup (requires: schedule, prefix, destinationId, database, databaseType, and postgresId/mysqlId/mariadbId/mongoId)\n` +
+          `• get: Get a scheduled backup (requires: backupId)\n` +
+          `• update: Update a scheduled backup (requires: backupId, schedule, prefix, destinationId, database)\n` +
+          `• remove: Delete a scheduled backup (requires: backupId)\n` +
+          `• runManual: Run a scheduled backup immediately (requires: backupId)\n` +
+          `• listFiles: List backup files in a destination (requires: destinationId)`
+      ),
+    params: createActionParams(actionMap)
+      .optional()
+      .describe(
+        `Parameters for the specified action.\n\n` +
+          `COMMON PARAMETERS:\n` +
+          `• destinationId: S3 destination ID\n` +
+          `• backupId: Scheduled backup ID\n` +
+          `• name, provider, accessKey, secretAccessKey, bucket, region, endpoint: S3 destination settings\n` +
+          `• schedule: Cron expression (e.g. '0 3 * * *')\n` +
+          `• prefix: Path prefix for backup files in the bucket\n` +
+          `• database: Name of the database to back up\n` +
+          `• databaseType: postgres, mysql, mariadb or mongo\n` +
+          `• postgresId/mysqlId/mariadbId/mongoId: The database service to back up (create)\n` +
+          `• enabled: Whether the schedule is active\n` +
+          `• keepLatestCount: Number of most recent backup files to keep\n` +
+          `• search: Prefix to filter backup files (listFiles)\n` +
+          `• serverId: Remote server ID (optional)\n\n` +
+          `EXAMPLE USAGE:\n` +
+          `Schedule backup: {"action": "create", "params": {"schedule": "0 3 * * *", "prefix": "main-db", "destinationId": "dest-123", "database": "app", "databaseType": "postgres", "postgresId": "pg-456"}}\n` +
+          `Run now: {"action": "runManual", "params": {"backupId": "bak-789"}}`
+      ),
+    dryRun: dryRunSchema,
+  }),
+  annotations: {
+    title: "Manage Dokploy Database Backups",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {}, dryRun } = input;
+
+    // Enforce project lock restrictions before executing the action
+    const lockError = await enforceProjectLock(params);
+    if (lockError) {
+      return lockError;
+    }
+
+    const tool = actionMap[action];
+
+    if (!tool) {
+      return ResponseFormatter.error(
+        "Invalid action",
+        `Action "${action}" is not supported for backups`
+      );
+    }
+
+    // Call the corresponding tool handler with the provided params
+    try {
+      if (dryRun) {
+        return await previewAction(
+          "dokploy_backup",
+          action,
+          tool,
+          params,
+          extra
+        );
+      }
+
+      return await tool.handler(params, extra);
+    } catch (error) {
+      return ResponseFormatter.error(
+        `Failed to execute backup action "${action}"`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  },
+});
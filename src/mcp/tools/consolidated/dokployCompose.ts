@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createActionParams, createTool } from "../toolFactory.js";
+import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+import { dryRunSchema, previewAction } from "../../../utils/dryRun.js";
+
+// Import all individual compose tool schemas for reuse
+import { composeCreate } from "../compose/composeCreate.js";
+import { composeDelete } from "../compose/composeDelete.js";
+import { composeDeploy } from "../compose/composeDeploy.js";
+import { composeDisconnectGitProvider } from "../compose/composeDisconnectGitProvider.js";
+import { composeLoadServices } from "../compose/composeLoadServices.js";
+import { composeMove } from "../compose/composeMove.js";
+import { composeOne } from "../compose/composeOne.js";
+import { composeRedeploy } from "../compose/composeRedeploy.js";
+import { composeSaveBitbucketProvider } from "../compose/composeSaveBitbucketProvider.js";
+import { composeSaveEnvironment } from "../compose/composeSaveEnvironment.js";
+import { composeSaveGiteaProvider } from "../compose/composeSaveGiteaProvider.js";
+import { composeSaveGithubProvider } from "../compose/composeSaveGithubProvider.js";
+import { composeSaveGitlabProvider } from "../compose/composeSaveGitlabProvider.js";
+import { composeSaveGitProvider } from "../compose/composeSaveGitProvider.js";
+import { composeStart } from "../compose/composeStart.js";
+import { composeStop } from "../compose/composeStop.js";
+import { composeUpdate } from "../compose/composeUpdate.js";
+import { composeEnvTools } from "../env/index.js";
+
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  create: composeCreate,
+  get: composeOne,
+  update: composeUpdate,
+  delete: composeDelete,
+  deploy: composeDeploy,
+  redeploy: composeRedeploy,
+  start: composeStart,
+  stop: composeStop,
+  move: composeMove,
+  saveEnvironment: composeSaveEnvironment,
+  ...composeEnvTools,
+  loadServices: composeLoadServices,
+  saveGithubProvider: composeSaveGithubProvider,
+  saveGitlabProvider: composeSaveGitlabProvider,
+  saveBitbucketProvider: composeSaveBitbucketProvider,
+  saveGiteaProvider: composeSaveGiteaProvider,
+  saveGitProvider: composeSaveGitProvider,
+  disconnectGitProvider: composeDisconnectGitProvider,
+};
+
+export const dokployCompose = createTool({
+  name: "dokploy_compose",
+  description:
+    "Consolidated tool for managing Dokploy Docker Compose services. Supports multiple actions: create, get, update, delete, deploy, redeploy, start, stop, move, saveEnvironment, listEnv, getEnv, setEnv, unsetEnv, mergeEnv, loadServices, saveGithubProvider, saveGitlabProvider, saveBitbucketProvider, saveGiteaProvider, saveGitProvider, disconnectGitProvider.",
+  schema: z.object({
+    action: z
+      .enum([
+        "create",
+        "get",
+        "update",
+        "delete",
+        "deploy",
+        "redeploy",
+        "start",
+        "stop",
+        "move",
+        "saveEnvironment",
+        "listEnv",
+        "getEnv",
+        "setEnv",
+        "unsetEnv",
+        "mergeEnv",
+        "loadServices",
+        "saveGithubProvider",
+        "saveGitlabProvider",
+        "saveBitbucketProvider",
+        "saveGiteaProvider",
+        "saveGitProvider",
+        "disconnectGitProvider",
+      ])
+      .describe(
+        `The action to perform on compose services.\n\n` +
+          `• create: Create new compose service (requires: name, environmentId)\n` +
+          `• get: Get compose details (requires: composeId)\n` +
+          `• update: Update compose config, e.g. composeFile (requires: composeId)\n` +
+          `• delete: Delete compose service (requires: composeId, optional deleteVolumes)\n` +
+          `• deploy/redeploy: Deploy or redeploy the stack (requires: composeId)\n` +
+          `• start/stop: Start/stop the stack (requires: composeId)\n` +
+          `• move: Move to different environment (requires: composeId, targetEnvironmentId)\n` +
+          `• saveEnvironment: Save env variables (requires: composeId)\n` +
+          `• listEnv/getEnv: List variables with masked values, or read one (requires: composeId; key for getEnv)\n` +
+          `• setEnv/unsetEnv/mergeEnv: Change single variables, keeping comments and all others (requires: composeId; key and value, keys, or variables)\n` +
+          `• loadServices: List services defined in the compose file (requires: composeId)\n` +
+          `• saveGithubProvider/saveGitlabProvider/saveBitbucketProvider/saveGiteaProvider/saveGitProvider: Configure the compose source (requires: composeId)\n` +
+          `• disconnectGitProvider: Remove git provider configuration (requires: composeId)`
+      ),
+    params: createActionParams(actionMap)
+      .optional()
+      .describe(
+        `Parameters for the specified action.\n\n` +
+          `COMMON PARAMETERS:\n` +
+          `• composeId: The unique identifier of the compose service (required for most operations)\n` +
+          `• name: Compose service name (required for create)\n` +
+          `• environmentId: Environment ID (required for create)\n` +
+          `• composeType: "docker-compose" or "stack" (optional for create)\n` +
+          `• composeFile: Raw docker-compose.yml contents (create, update)\n` +
+          `• wait: Block until deploy/redeploy finishes, sending progress notifications (optional; also waitTimeoutSeconds, logLines)\n\n` +
+          `EXAMPLE USAGE:\n` +
+          `Create compose: {"action": "create", "params": {"name": "Monitoring", "environmentId": "env-123"}}\n` +
+          `Deploy compose: {"action": "deploy", "params": {"composeId": "compose-123"}}\n` +
+          `Delete compose: {"action": "delete", "params": {"composeId": "compose-123", "deleteVolumes": false}}`
+      ),
+    dryRun: dryRunSchema,
+  }),
+  annotations: {
+    title: "Manage Dokploy Compose Service",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {}, dryRun } = input;
+
+    // Enforce project lock restrictions before executing the action
+    const lockError = await enforceProjectLock(params);
+    if (lockError) {
+      return lockError;
+    }
+
+    const tool = actionMap[action];
+
+    if (!tool) {
+      return ResponseFormatter.error(
+        "Invalid action",
+        `Action "${action}" is not supported for compose services`
+      );
+    }
+
+    // Call the corresponding tool handler with the provided params
+    try {
+      if (dryRun) {
+        return await previewAction(
+          "dokploy_compose",
+          action,
+          tool,
+          params,
+          extra
+        );
+      }
+
+      return await tool.handler(params, extra);
+    } catch (error) {
+      return ResponseFormatter.error(
+        `Failed to execute compose action "${action}"`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  },
+});
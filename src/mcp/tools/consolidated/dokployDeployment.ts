@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createActionParams, createTool } from "../toolFactory.js";
+import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+
+// Import all individual deployment tool schemas for reuse
+import { deploymentAll } from "../deployment/deploymentAll.js";
+import { deploymentAllByCompose } from "../deployment/deploymentAllByCompose.js";
+import { deploymentLogs } from "../deployment/deploymentLogs.js";
+
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  list: deploymentAll,
+  listByCompose: deploymentAllByCompose,
+  logs: deploymentLogs,
+};
+
+export const dokployDeployment = createTool({
+  name: "dokploy_deployment",
+  description:
+    "Consolidated tool for inspecting Dokploy deployments. Supports multiple actions: list, listByCompose, logs.",
+  schema: z.object({
+    action: z
+      .enum(["list", "listByCompose", "logs"])
+      .describe(
+        `The action to perform on deployments.\n\n` +
+          `• list: List deployments of an application, newest first (requires: applicationId)\n` +
+          `• listByCompose: List deployments of a compose service, newest first (requires: composeId)\n` +
+          `• logs: Read the build log of a deployment (requires: deploymentId and applicationId OR composeId)`
+      ),
+    params: createActionParams(actionMap)
+      .optional()
+      .describe(
+        `Parameters for the specified action.\n\n` +
+          `COMMON PARAMETERS:\n` +
+          `• applicationId: The application the deployments belong to (list, logs)\n` +
+          `• composeId: The compose service the deployments belong to (listByCompose, logs)\n` +
+          `• deploymentId: The deployment to read (required for logs)\n` +
+          `• tail: Only return the last N log lines (logs)\n` +
+          `• startLine/endLine: 1-based inclusive line range (logs)\n` +
+          `• serverId: Remote server the service runs on (logs, optional)\n\n` +
+          `EXAMPLE USAGE:\n` +
+          `List deployments: {"action": "list", "params": {"applicationId": "app-123"}}\n` +
+          `Tail build log: {"action": "logs", "params": {"applicationId": "app-123", "deploymentId": "dep-456", "tail": 100}}`
+      ),
+  }),
+  annotations: {
+    title: "Inspect Dokploy Deployments",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {} } = input;
+
+    // Enforce project lock restrictions before executing the action
+    const lockError = await enforceProjectLock(params);
+    if (lockError) {
+      return lockError;
+    }
+
+    const tool = actionMap[action];
+
+    if (!tool) {
+      return ResponseFormatter.error(
+        "Invalid action",
+        `Action "${action}" is not supported for deployments`
+      );
+    }
+
+    // Call the corresponding tool handler with the provided params
+    try {
+      return await tool.handler(params, extra);
+    } catch (error) {
+      return ResponseFormatter.error(
+        `Failed to execute deployment action "${action}"`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  },
+});
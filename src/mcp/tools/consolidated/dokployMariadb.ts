@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createActionParams, createTool } from "../toolFactory.js";
+import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+import { dryRunSchema, previewAction } from "../../../utils/dryRun.js";
+
+// Import all individual MariaDB tool schemas for reuse
+import { mariadbChangeStatus } from "../mariadb/mariadbChangeStatus.js";
+import { mariadbCreate } from "../mariadb/mariadbCreate.js";
+import { mariadbDeploy } from "../mariadb/mariadbDeploy.js";
+import { mariadbMove } from "../mariadb/mariadbMove.js";
+import { mariadbOne } from "../mariadb/mariadbOne.js";
+import { mariadbRebuild } from "../mariadb/mariadbRebuild.js";
+import { mariadbReload } from "../mariadb/mariadbReload.js";
+import { mariadbRemove } from "../mariadb/mariadbRemove.js";
+import { mariadbSaveEnvironment } from "../mariadb/mariadbSaveEnvironment.js";
+import { mariadbSaveExternalPort } from "../mariadb/mariadbSaveExternalPort.js";
+import { mariadbStart } from "../mariadb/mariadbStart.js";
+import { mariadbStop } from "../mariadb/mariadbStop.js";
+import { mariadbUpdate } from "../mariadb/mariadbUpdate.js";
+import { mariadbEnvTools } from "../env/index.js";
+
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  create: mariadbCreate,
+  remove: mariadbRemove,
+  deploy: mariadbDeploy,
+  start: mariadbStart,
+  stop: mariadbStop,
+  update: mariadbUpdate,
+  get: mariadbOne,
+  rebuild: mariadbRebuild,
+  reload: mariadbReload,
+  move: mariadbMove,
+  changeStatus: mariadbChangeStatus,
+  saveEnvironment: mariadbSaveEnvironment,
+  ...mariadbEnvTools,
+  saveExternalPort: mariadbSaveExternalPort,
+};
+
+export const dokployMariadb = createTool({
+  name: "dokploy_mariadb",
+  description:
+    "Consolidated tool for managing Dokploy MariaDB databases. Supports multiple actions: create, remove, deploy, start, stop, update, get, rebuild, reload, move, changeStatus, saveEnvironment, listEnv, getEnv, setEnv, unsetEnv, mergeEnv, saveExternalPort.",
+  schema: z.object({
+    action: z
+      .enum([
+        "create",
+        "remove",
+        "deploy",
+        "start",
+        "stop",
+        "update",
+        "get",
+        "rebuild",
+        "reload",
+        "move",
+        "changeStatus",
+        "saveEnvironment",
+        "listEnv",
+        "getEnv",
+        "setEnv",
+        "unsetEnv",
+        "mergeEnv",
+        "saveExternalPort",
+      ])
+      .describe(
+        `The action to perform on MariaDB databases.\n\n` +
+          `• create: Create new MariaDB database (requires: name, appName, databaseName, databaseUser, databasePassword, databaseRootPassword, environmentId)\n` +
+          `• get: Get database details (requires: mariadbId)\n` +
+          `• update: Update database config (requires: mariadbId)\n` +
+          `• remove: Delete database (requires: mariadbId)\n` +
+          `• deploy: Deploy database (requires: mariadbId)\n` +
+          `• start/stop: Start/stop database (requires: mariadbId)\n` +
+          `• rebuild: Rebuild database (requires: mariadbId)\n` +
+          `• reload: Reload database (requires: mariadbId)\n` +
+          `• move: Move to different environment (requires: mariadbId, targetEnvironmentId)\n` +
+          `• changeStatus: Change database status (requires: mariadbId, applicationStatus)\n` +
+          `• saveEnvironment: Save env variables (requires: mariadbId)\n` +
+          `• listEnv/getEnv: List variables with masked values, or read one (requires: mariadbId; key for getEnv)\n` +
+          `• setEnv/unsetEnv/mergeEnv: Change single variables, keeping comments and all others (requires: mariadbId; key and value, keys, or variables)\n` +
+          `• saveExternalPort: Configure external port (requires: mariadbId, externalPort)`
+      ),
+    params: createActionParams(actionMap)
+      .optional()
+      .describe(
+        `Parameters for the specified action.\n\n` +
+          `COMMON PARAMETERS:\n` +
+          `• mariadbId: The unique identifier of the MariaDB database (required for most operations)\n` +
+          `• name: Database display name (required for create)\n` +
+          `• appName: Application name (required for create)\n` +
+          `• databaseName: Database name (required for create)\n` +
+          `• databaseUser: Database username (required for create)\n` +
+          `• databasePassword: Database user password (required for create)\n` +
+          `• databaseRootPassword: Database root password (required for create)\n` +
+          `• environmentId: Environment ID (required for create)\n` +
+          `• targetEnvironmentId: Destination environment ID (required for move)\n` +
+          `• wait: Block until deploy/reload/rebuild reaches done or error, sending progress notifications (optional; also waitTimeoutSeconds)\n\n` +
+          `EXAMPLE USAGE:\n` +
+          `Create MariaDB: {"action": "create", "params": {"name": "MariaDB DB", "appName": "myapp", "databaseName": "mydb", "databaseUser": "user", "databasePassword": "userpass", "databaseRootPassword": "rootpass", "environmentId": "env-123"}}\n` +
+          `Get MariaDB: {"action": "get", "params": {"mariadbId": "mariadb-123"}}`
+      ),
+    dryRun: dryRunSchema,
+  }),
+  annotations: {
+    title: "Manage Dokploy MariaDB Database",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {}, dryRun } = input;
+
+    // Enforce project lock restrictions before executing the action
+    const lockError = await enforceProjectLock(params);
+    if (lockError) {
+      return lockError;
+    }
+
+    const tool = actionMap[action];
+
+    if (!tool) {
+      return ResponseFormatter.error(
+        "Invalid action",
+        `Action "${action}" is not supported for MariaDB database`
+      );
+    }
+
+    // Call the corresponding tool handler with the provided params
+    try {
+      if (dryRun) {
+        return await previewAction(
+          "dokploy_mariadb",
+          action,
+          tool,
+          params,
+          extra
+        );
+      }
+
+      return await tool.handler(params, extra);
+    } catch (error) {
+      return ResponseFormatter.error(
+        `Failed to execute MariaDB action "${action}"`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  },
+});
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createActionParams, createTool } from "../toolFactory.js";
+import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+import { dryRunSchema, previewAction } from "../../../utils/dryRun.js";
+
+// Import all individual MongoDB tool schemas for reuse
+import { mongoChangeStatus } from "../mongo/mongoChangeStatus.js";
+import { mongoCreate } from "../mongo/mongoCreate.js";
+import { mongoDeploy } from "../mongo/mongoDeploy.js";
+import { mongoMove } from "../mongo/mongoMove.js";
+import { mongoOne } from "../mongo/mongoOne.js";
+import { mongoRebuild } from "../mongo/mongoRebuild.js";
+import { mongoReload } from "../mongo/mongoReload.js";
+import { mongoRemove } from "../mongo/mongoRemove.js";
+import { mongoSaveEnvironment } from "../mongo/mongoSaveEnvironment.js";
+import { mongoSaveExternalPort } from "../mongo/mongoSaveExternalPort.js";
+import { mongoStart } from "../mongo/mongoStart.js";
+import { mongoStop } from "../mongo/mongoStop.js";
+import { mongoUpdate } from "../mongo/mongoUpdate.js";
+import { mongoEnvTools } from "../env/index.js";
+
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  create: mongoCreate,
+  remove: mongoRemove,
+  deploy: mongoDeploy,
+  start: mongoStart,
+  stop: mongoStop,
+  update: mongoUpdate,
+  get: mongoOne,
+  rebuild: mongoRebuild,
+  reload: mongoReload,
+  move: mongoMove,
+  changeStatus: mongoChangeStatus,
+  saveEnvironment: mongoSaveEnvironment,
+  ...mongoEnvTools,
+  saveExternalPort: mongoSaveExternalPort,
+};
+
+export const dokployMongo = createTool({
+  name: "dokploy_mongo",
+  description:
+    "Consolidated tool for managing Dokploy MongoDB databases. Supports multiple actions: create, remove, deploy, start, stop, update, get, rebuild, reload, move, changeStatus, saveEnvironment, listEnv, getEnv, setEnv, unsetEnv, mergeEnv, saveExternalPort.",
+  schema: z.object({
+    action: z
+      .enum([
+        "create",
+        "remove",
+        "deploy",
+        "start",
+        "stop",
+        "update",
+        "get",
+        "rebuild",
+        "reload",
+        "move",
+        "changeStatus",
+        "saveEnvironment",
+        "listEnv",
+        "getEnv",
+        "setEnv",
+        "unsetEnv",
+        "mergeEnv",
+        "saveExternalPort",
+      ])
+      .describe(
+        `The action to perform on MongoDB databases.\n\n` +
+          `• create: Create new MongoDB database (requires: name, appName, databaseUser, databasePassword, environmentId)\n` +
+          `• get: Get database details (requires: mongoId)\n` +
+          `• update: Update database config (requires: mongoId)\n` +
+          `• remove: Delete database (requires: mongoId)\n` +
+          `• deploy: Deploy database (requires: mongoId)\n` +
+          `• start/stop: Start/stop database (requires: mongoId)\n` +
+          `• rebuild: Rebuild database (requires: mongoId)\n` +
+          `• reload: Reload database (requires: mongoId)\n` +
+          `• move: Move to different environment (requires: mongoId, targetEnvironmentId)\n` +
+          `• changeStatus: Change database status (requires: mongoId, applicationStatus)\n` +
+          `• saveEnvironment: Save env variables (requires: mongoId)\n` +
+          `• listEnv/getEnv: List variables with masked values, or read one (requires: mongoId; key for getEnv)\n` +
+          `• setEnv/unsetEnv/mergeEnv: Change single variables, keeping comments and all others (requires: mongoId; key and value, keys, or variables)\n` +
+          `• saveExternalPort: Configure external port (requires: mongoId, externalPort)`
+      ),
+    params: createActionParams(actionMap)
+      .optional()
+      .describe(
+        `Parameters for the specified action.\n\n` +
+          `COMMON PARAMETERS:\n` +
+          `• mongoId: The unique identifier of the MongoDB database (required for most operations)\n` +
+          `• name: Database display name (required for create)\n` +
+          `• appName: Application name (required for create)\n` +
+          `• databaseUser: Database username (required for create)\n` +
+          `• databasePassword: Database user password (required for create)\n` +
+          `• replicaSets: Run as a replica set (optional for create, update)\n` +
+          `• environmentId: Environment ID (required for create)\n` +
+          `• targetEnvironmentId: Destination environment ID (required for move)\n` +
+          `• wait: Block until deploy/reload/rebuild reaches done or error, sending progress notifications (optional; also waitTimeoutSeconds)\n\n` +
+          `EXAMPLE USAGE:\n` +
+          `Create MongoDB: {"action": "create", "params": {"name": "Analytics DB", "appName": "analytics", "databaseUser": "user", "databasePassword": "userpass", "environmentId": "env-123"}}\n` +
+          `Get MongoDB: {"action": "get", "params": {"mongoId": "mongo-123"}}`
+      ),
+    dryRun: dryRunSchema,
+  }),
+  annotations: {
+    title: "Manage Dokploy MongoDB Database",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {}, dryRun } = input;
+
+    // Enforce project lock restrictions before executing the action
+    const lockError = await enforceProjectLock(params);
+    if (lockError) {
+      return lockError;
+    }
+
+    const tool = actionMap[action];
+
+    if (!tool) {
+      return ResponseFormatter.error(
+        "Invalid action",
+        `Action "${action}" is not supported for MongoDB database`
+      );
+    }
+
+    // Call the corresponding tool handler with the provided params
+    try {
+      if (dryRun) {
+        return await previewAction(
+          "dokploy_mongo",
+          action,
+          tool,
+          params,
+          extra
+        );
+      }
+
+      return await tool.handler(params, extra);
+    } catch (error) {
+      return ResponseFormatter.error(
+        `Failed to execute MongoDB action "${action}"`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  },
+});
@@ -1,7 +1,8 @@
 import { z } from "zod";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
-import { createTool } from "../toolFactory.js";
+import { createActionParams, createTool } from "../toolFactory.js";
 import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+import { dryRunSchema, previewAction } from "../../../utils/dryRun.js";
 
 // Import all individual PostgreSQL tool schemas for reuse
 import { postgresChangeStatus } from "../postgres/postgresChangeStatus.js";
@@ -17,17 +18,36 @@ import { postgresSaveExternalPort } from "../postgres/postgresSaveExternalPort.j
 import { postgresStart } from "../postgres/postgresStart.js";
 import { postgresStop } from "../postgres/postgresStop.js";
 import { postgresUpdate } from "../postgres/postgresUpdate.js";
+import { postgresEnvTools } from "../env/index.js";
+
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  create: postgresCreate,
+  remove: postgresRemove,
+  deploy: postgresDeploy,
+  start: postgresStart,
+  stop: postgresStop,
+  update: postgresUpdate,
+  get: postgresOne,
+  rebuild: postgresRebuild,
+  reload: postgresReload,
+  move: postgresMove,
+  changeStatus: postgresChangeStatus,
+  saveEnvironment: postgresSaveEnvironment,
+  ...postgresEnvTools,
+  saveExternalPort: postgresSaveExternalPort,
+};
 
 export const dokployPostgres = createTool({
   name: "dokploy_postgres",
   description:
-    "Consolidated tool for managing Dokploy PostgreSQL databases. Supports multiple actions: create, remove, deploy, start, stop, update, get, rebuild, reload, move, changeStatus, saveEnvironment, saveExternalPort.",
+    "Consolidated tool for managing Dokploy PostgreSQL databases. Supports multiple actions: create, remove, deploy, start, stop, update, get, rebuild, reload, move, changeStatus, saveEnvironment, listEnv, getEnv, setEnv, unsetEnv, mergeEnv, saveExternalPort.",
   schema: z.object({
     action: z
       .enum([
         "create",
         "remove",
-        "deploy", 
+        "deploy",
         "start",
         "stop",
         "update",
@@ -37,49 +57,58 @@ export const dokployPostgres = createTool({
         "move",
         "changeStatus",
         "saveEnvironment",
+        "listEnv",
+        "getEnv",
+        "setEnv",
+        "unsetEnv",
+        "mergeEnv",
         "saveExternalPort",
       ])
       .describe(
         `The action to perform on PostgreSQL databases.\n\n` +
-        `• create: Create new PostgreSQL database (requires: name, appName, databaseName, databaseUser, databasePassword, environmentId)\n` +
-        `• get: Get database details (requires: postgresId)\n` +
-        `• update: Update database config (requires: postgresId)\n` +
-        `• remove: Delete database (requires: postgresId)\n` +
-        `• deploy: Deploy database (requires: postgresId)\n` +
-        `• start/stop: Start/stop database (requires: postgresId)\n` +
-        `• rebuild: Rebuild database (requires: postgresId)\n` +
-        `• reload: Reload database (requires: postgresId)\n` +
-        `• move: Move to different environment (requires: postgresId, environmentId)\n` +
-        `• changeStatus: Change database status (requires: postgresId, applicationStatus)\n` +
-        `• saveEnvironment: Save env variables (requires: postgresId)\n` +
-        `• saveExternalPort: Configure external port (requires: postgresId, externalPort)`
+          `• create: Create new PostgreSQL database (requires: name, appName, databaseName, databaseUser, databasePassword, environmentId)\n` +
+          `• get: Get database details (requires: postgresId)\n` +
+          `• update: Update database config (requires: postgresId)\n` +
+          `• remove: Delete database (requires: postgresId)\n` +
+          `• deploy: Deploy database (requires: postgresId)\n` +
+          `• start/stop: Start/stop database (requires: postgresId)\n` +
+          `• rebuild: Rebuild database (requires: postgresId)\n` +
+          `• reload: Reload database (requires: postgresId)\n` +
+          `• move: Move to different environment (requires: postgresId, environmentId)\n` +
+          `• changeStatus: Change database status (requires: postgresId, applicationStatus)\n` +
+          `• saveEnvironment: Save env variables (requires: postgresId)\n` +
+          `• listEnv/getEnv: List variables with masked values, or read one (requires: postgresId; key for getEnv)\n` +
+          `• setEnv/unsetEnv/mergeEnv: Change single variables, keeping comments and all others (requires: postgresId; key and value, keys, or variables)\n` +
+          `• saveExternalPort: Configure external port (requires: postgresId, externalPort)`
       ),
-    params: z
-      .record(z.any())
+    params: createActionParams(actionMap)
       .optional()
       .describe(
         `Parameters for the specified action.\n\n` +
-        `COMMON PARAMETERS:\n` +
-        `• postgresId: The unique identifier of the PostgreSQL database (required for most operations)\n` +
-        `• name: Database display name (required for create)\n` +
-        `• appName: Application name (required for create)\n` +
-        `• databaseName: Database name (required for create)\n` +
-        `• databaseUser: Database username (required for create)\n` +
-        `• databasePassword: Database password (required for create)\n` +
-        `• environmentId: Environment ID (required for create, move)\n\n` +
-        `EXAMPLE USAGE:\n` +
-        `Create DB: {"action": "create", "params": {"name": "Prod DB", "appName": "myapp", "databaseName": "mydb", "databaseUser": "user", "databasePassword": "pass", "environmentId": "env-123"}}\n` +
-        `Get DB: {"action": "get", "params": {"postgresId": "pg-123"}}`
+          `COMMON PARAMETERS:\n` +
+          `• postgresId: The unique identifier of the PostgreSQL database (required for most operations)\n` +
+          `• name: Database display name (required for create)\n` +
+          `• appName: Application name (required for create)\n` +
+          `• databaseName: Database name (required for create)\n` +
+          `• databaseUser: Database username (required for create)\n` +
+          `• databasePassword: Database password (required for create)\n` +
+          `• environmentId: Environment ID (required for create, move)\n` +
+          `• wait: Block until deploy/reload/rebuild reaches done or error, sending progress notifications (optional; also waitTimeoutSeconds)\n\n` +
+          `EXAMPLE USAGE:\n` +
+          `Create DB: {"action": "create", "params": {"name": "Prod DB", "appName": "myapp", "databaseName": "mydb", "databaseUser": "user", "databasePassword": "pass", "environmentId": "env-123"}}\n` +
+          `Get DB: {"action": "get", "params": {"postgresId": "pg-123"}}`
       ),
+    dryRun: dryRunSchema,
   }),
   annotations: {
     title: "Manage Dokploy PostgreSQL Database",
-    destructiveHint: false, // Will be dynamically set based on action
+    destructiveHint: true,
     idempotentHint: false,
     openWorldHint: true,
   },
-  handler: async (input) => {
-    const { action, params = {} } = input;
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {}, dryRun } = input;
 
     // Enforce project lock restrictions before executing the action
     const lockError = await enforceProjectLock(params);
@@ -87,23 +116,6 @@ export const dokployPostgres = createTool({
       return lockError;
     }
 
-    // Map actions to their corresponding tool handlers
-    const actionMap: Record<string, any> = {
-      create: postgresCreate,
-      remove: postgresRemove,
-      deploy: postgresDeploy,
-      start: postgresStart,
-      stop: postgresStop,
-      update: postgresUpdate,
-      get: postgresOne,
-      rebuild: postgresRebuild,
-      reload: postgresReload,
-      move: postgresMove,
-      changeStatus: postgresChangeStatus,
-      saveEnvironment: postgresSaveEnvironment,
-      saveExternalPort: postgresSaveExternalPort,
-    };
-
     const tool = actionMap[action];
 
     if (!tool) {
@@ -115,7 +127,17 @@ export const dokployPostgres = createTool({
 
     // Call the corresponding tool handler with the provided params
     try {
-      return await tool.handler(params);
+      if (dryRun) {
+        return await previewAction(
+          "dokploy_postgres",
+          action,
+          tool,
+          params,
+          extra
+        );
+      }
+
+      return await tool.handler(params, extra);
     } catch (error) {
       return ResponseFormatter.error(
         `Failed to execute PostgreSQL action "${action}"`,
@@ -1,7 +1,8 @@
 import { z } from "zod";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
-import { createTool } from "../toolFactory.js";
+import { createActionParams, createTool } from "../toolFactory.js";
 import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+import { dryRunSchema, previewAction } from "../../../utils/dryRun.js";
 
 // Import all individual tool schemas for reuse
 import { projectAll } from "../project/projectAll.js";
@@ -11,6 +12,16 @@ import { projectOne } from "../project/projectOne.js";
 import { projectRemove } from "../project/projectRemove.js";
 import { projectUpdate } from "../project/projectUpdate.js";
 
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  list: projectAll,
+  create: projectCreate,
+  get: projectOne,
+  update: projectUpdate,
+  remove: projectRemove,
+  duplicate: projectDuplicate,
+};
+
 export const dokployProject = createTool({
   name: "dokploy_project",
   description:
@@ -27,8 +38,7 @@ export const dokployProject = createTool({
         `• remove: Delete project (requires: projectId)\n` +
         `• duplicate: Duplicate existing project (requires: sourceProjectId, name)`
       ),
-    params: z
-      .record(z.any())
+    params: createActionParams(actionMap)
       .optional()
       .describe(
         `Parameters for the specified action.\n\n` +
@@ -41,15 +51,17 @@ export const dokployProject = createTool({
         `Get project: {"action": "get", "params": {"projectId": "proj-123"}}\n` +
         `Create project: {"action": "create", "params": {"name": "My Project"}}`
       ),
+    dryRun: dryRunSchema,
   }),
   annotations: {
     title: "Manage Dokploy Project",
-    destructiveHint: false, // Will be dynamically set based on action
+    destructiveHint: true,
     idempotentHint: false,
     openWorldHint: true,
   },
-  handler: async (input) => {
-    const { action, params = {} } = input;
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {}, dryRun } = input;
 
     // Enforce project lock restrictions before executing the action
     const lockError = await enforceProjectLock(params);
@@ -57,16 +69,6 @@ export const dokployProject = createTool({
       return lockError;
     }
 
-    // Map actions to their corresponding tool handlers
-    const actionMap: Record<string, any> = {
-      list: projectAll,
-      create: projectCreate,
-      get: projectOne,
-      update: projectUpdate,
-      remove: projectRemove,
-      duplicate: projectDuplicate,
-    };
-
     const tool = actionMap[action];
     if (!tool) {
       return ResponseFormatter.error(
@@ -77,7 +79,17 @@ export const dokployProject = createTool({
 
     // Call the corresponding tool handler with the provided params
     try {
-      return await tool.handler(params);
+      if (dryRun) {
+        return await previewAction(
+          "dokploy_project",
+          action,
+          tool,
+          params,
+          extra
+        );
+      }
+
+      return await tool.handler(params, extra);
     } catch (error) {
       return ResponseFormatter.error(
         `Failed to execute project action "${action}"`,
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createActionParams, createTool } from "../toolFactory.js";
+import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+import { dryRunSchema, previewAction } from "../../../utils/dryRun.js";
+
+// Import all individual Redis tool schemas for reuse
+import { redisChangeStatus } from "../redis/redisChangeStatus.js";
+import { redisCreate } from "../redis/redisCreate.js";
+import { redisDeploy } from "../redis/redisDeploy.js";
+import { redisMove } from "../redis/redisMove.js";
+import { redisOne } from "../redis/redisOne.js";
+import { redisRebuild } from "../redis/redisRebuild.js";
+import { redisReload } from "../redis/redisReload.js";
+import { redisRemove } from "../redis/redisRemove.js";
+import { redisSaveEnvironment } from "../redis/redisSaveEnvironment.js";
+import { redisSaveExternalPort } from "../redis/redisSaveExternalPort.js";
+import { redisStart } from "../redis/redisStart.js";
+import { redisStop } from "../redis/redisStop.js";
+import { redisUpdate } from "../redis/redisUpdate.js";
+import { redisEnvTools } from "../env/index.js";
+
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  create: redisCreate,
+  remove: redisRemove,
+  deploy: redisDeploy,
+  start: redisStart,
+  stop: redisStop,
+  update: redisUpdate,
+  get: redisOne,
+  rebuild: redisRebuild,
+  reload: redisReload,
+  move: redisMove,
+  changeStatus: redisChangeStatus,
+  saveEnvironment: redisSaveEnvironment,
+  ...redisEnvTools,
+  saveExternalPort: redisSaveExternalPort,
+};
+
+export const dokployRedis = createTool({
+  name: "dokploy_redis",
+  description:
+    "Consolidated tool for managing Dokploy Redis instances. Supports multiple actions: create, remove, deploy, start, stop, update, get, rebuild, reload, move, changeStatus, saveEnvironment, listEnv, getEnv, setEnv, unsetEnv, mergeEnv, saveExternalPort.",
+  schema: z.object({
+    action: z
+      .enum([
+        "create",
+        "remove",
+        "deploy",
+        "start",
+        "stop",
+        "update",
+        "get",
+        "rebuild",
+        "reload",
+        "move",
+        "changeStatus",
+        "saveEnvironment",
+        "listEnv",
+        "getEnv",
+        "setEnv",
+        "unsetEnv",
+        "mergeEnv",
+        "saveExternalPort",
+      ])
+      .describe(
+        `The action to perform on Redis instances.\n\n` +
+          `• create: Create new Redis instance (requires: name, appName, databasePassword, environmentId)\n` +
+          `• get: Get instance details (requires: redisId)\n` +
+          `• update: Update instance config (requires: redisId)\n` +
+          `• remove: Delete instance (requires: redisId)\n` +
+          `• deploy: Deploy instance (requires: redisId)\n` +
+          `• start/stop: Start/stop instance (requires: redisId)\n` +
+          `• rebuild: Rebuild instance (requires: redisId)\n` +
+          `• reload: Reload instance (requires: redisId)\n` +
+          `• move: Move to different environment (requires: redisId, targetEnvironmentId)\n` +
+          `• changeStatus: Change instance status (requires: redisId, applicationStatus)\n` +
+          `• saveEnvironment: Save env variables (requires: redisId)\n` +
+          `• listEnv/getEnv: List variables with masked values, or read one (requires: redisId; key for getEnv)\n` +
+          `• setEnv/unsetEnv/mergeEnv: Change single variables, keeping comments and all others (requires: redisId; key and value, keys, or variables)\n` +
+          `• saveExternalPort: Configure external port (requires: redisId, externalPort)`
+      ),
+    params: createActionParams(actionMap)
+      .optional()
+      .describe(
+        `Parameters for the specified action.\n\n` +
+          `COMMON PARAMETERS:\n` +
+          `• redisId: The unique identifier of the Redis instance (required for most operations)\n` +
+          `• name: Database display name (required for create)\n` +
+          `• appName: Application name (required for create)\n` +
+          `• databasePassword: Redis password (required for create)\n` +
+          `• environmentId: Environment ID (required for create)\n` +
+          `• targetEnvironmentId: Destination environment ID (required for move)\n` +
+          `• wait: Block until deploy/reload/rebuild reaches done or error, sending progress notifications (optional; also waitTimeoutSeconds)\n\n` +
+          `EXAMPLE USAGE:\n` +
+          `Create Redis: {"action": "create", "params": {"name": "Cache", "appName": "cache", "databasePassword": "redispass", "environmentId": "env-123"}}\n` +
+          `Get Redis: {"action": "get", "params": {"redisId": "redis-123"}}`
+      ),
+    dryRun: dryRunSchema,
+  }),
+  annotations: {
+    title: "Manage Dokploy Redis Instance",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {}, dryRun } = input;
+
+    // Enforce project lock restrictions before executing the action
+    const lockError = await enforceProjectLock(params);
+    if (lockError) {
+      return lockError;
+    }
+
+    const tool = actionMap[action];
+
+    if (!tool) {
+      return ResponseFormatter.error(
+        "Invalid action",
+        `Action "${action}" is not supported for Redis instance`
+      );
+    }
+
+    // Call the corresponding tool handler with the provided params
+    try {
+      if (dryRun) {
+        return await previewAction(
+          "dokploy_redis",
+          action,
+          tool,
+          params,
+          extra
+        );
+      }
+
+      return await tool.handler(params, extra);
+    } catch (error) {
+      return ResponseFormatter.error(
+        `Failed to execute Redis action "${action}"`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  },
+});
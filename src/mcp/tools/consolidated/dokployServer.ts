@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createActionParams, createTool } from "../toolFactory.js";
+import { enforceProjectLock } from "../../../utils/projectLockEnforcer.js";
+import { dryRunSchema, previewAction } from "../../../utils/dryRun.js";
+
+// Import all individual server tool schemas for reuse
+import { serverAll } from "../server/serverAll.js";
+import { serverCreate } from "../server/serverCreate.js";
+import { serverOne } from "../server/serverOne.js";
+import { serverRemove } from "../server/serverRemove.js";
+import { serverSetup } from "../server/serverSetup.js";
+import { serverUpdate } from "../server/serverUpdate.js";
+import { serverValidate } from "../server/serverValidate.js";
+
+// Map actions to their corresponding tool handlers
+const actionMap: Record<string, any> = {
+  list: serverAll,
+  get: serverOne,
+  create: serverCreate,
+  update: serverUpdate,
+  remove: serverRemove,
+  setup: serverSetup,
+  validate: serverValidate,
+};
+
+export const dokployServer = createTool({
+  name: "dokploy_server",
+  description:
+    "Consolidated tool for managing Dokploy remote servers in multi-node setups. Supports multiple actions: list, get, create, update, remove, setup, validate.",
+  schema: z.object({
+    action: z
+      .enum(["list", "get", "create", "update", "remove", "setup", "validate"])
+      .describe(
+        `The action to perform on servers.\n\n` +
+          `• list: List all remote servers (no params required)\n` +
+          `• get: Get server details (requires: serverId)\n` +
+          `• create: Register a new server (requires: name, ipAddress, port, username, sshKeyId)\n` +
+          `• update: Update a server (requires: serverId, name, ipAddress, port, username, sshKeyId)\n` +
+          `• remove: Delete a server (requires: serverId)\n` +
+          `• setup: Install Docker and Dokploy tooling on the server over SSH (requires: serverId)\n` +
+          `• validate: Check which tooling is installed on the server (requires: serverId)`
+      ),
+    params: createActionParams(actionMap)
+      .optional()
+      .describe(
+        `Parameters for the specified action.\n\n` +
+          `COMMON PARAMETERS:\n` +
+          `• serverId: Server ID (required for most actions)\n` +
+          `• name: Display name of the server\n` +
+          `• description: Optional description\n` +
+          `• ipAddress: IP address or hostname reachable over SSH\n` +
+          `• port: SSH port (usually 22)\n` +
+          `• username: SSH user (usually root)\n` +
+          `• sshKeyId: ID of the SSH key Dokploy connects with\n` +
+          `• serverType: deploy (default) or build\n` +
+          `• command: Custom setup command (update)\n\n` +
+          `Pass the serverId from this tool to the create actions of other tools to place services on a remote server.\n\n` +
+          `EXAMPLE USAGE:\n` +
+          `List servers: {"action": "list", "params": {}}\n` +
+          `Create server: {"action": "create", "params": {"name": "worker-1", "ipAddress": "203.0.113.10", "port": 22, "username": "root", "sshKeyId": "key-123"}}`
+      ),
+    dryRun: dryRunSchema,
+  }),
+  annotations: {
+    title: "Manage Dokploy Servers",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  actions: actionMap,
+  handler: async (input, extra) => {
+    const { action, params = {}, dryRun } = input;
+
+    // Enforce project lock restrictions before executing the action
+    const lockError = await enforceProjectLock(params);
+    if (lockError) {
+      return lockError;
+    }
+
+    const tool = actionMap[action];
+
+    if (!tool) {
+      return ResponseFormatter.error(
+        "Invalid action",
+        `Action "${action}" is not supported for servers`
+      );
+    }
+
+    // Call the corresponding tool handler with the provided params
+    try {
+      if (dryRun) {
+        return await previewAction(
+          "dokploy_server",
+          action,
+          tool,
+          params,
+          extra
+        );
+      }
+
+      return await tool.handler(params, extra);
+    } catch (error) {
+      return ResponseFormatter.error(
+        `Failed to execute server action "${action}"`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  },
+});
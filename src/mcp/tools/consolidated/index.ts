@@ -1,4 +1,12 @@
+export { dokployAudit } from "./dokployAudit.js";
 export { dokployApplication } from "./dokployApplication.js";
+export { dokployBackup } from "./dokployBackup.js";
+export { dokployCompose } from "./dokployCompose.js";
+export { dokployDeployment } from "./dokployDeployment.js";
+export { dokployMariadb } from "./dokployMariadb.js";
+export { dokployMongo } from "./dokployMongo.js";
 export { dokployMysql } from "./dokployMysql.js";
 export { dokployPostgres } from "./dokployPostgres.js";
 export { dokployProject } from "./dokployProject.js";
+export { dokployRedis } from "./dokployRedis.js";
+export { dokployServer } from "./dokployServer.js";
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import {
+  fetchDeployments,
+  summarizeDeployment,
+} from "../../../utils/deployments.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const deploymentAll = createTool({
+  name: "deployment-all",
+  description:
+    "Lists the deployment history of an application in Dokploy, newest first. Returns status, timestamps, title and description for each deployment.",
+  schema: z.object({
+    applicationId: z
+      .string()
+      .min(1)
+      .describe("The ID of the application to list deployments for."),
+  }),
+  annotations: {
+    title: "List Application Deployments",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const deployments = await fetchDeployments({
+      applicationId: input.applicationId,
+    });
+
+    return ResponseFormatter.success(
+      `Successfully fetched ${deployments.length} deployment(s) for application "${input.applicationId}"`,
+      deployments.map(summarizeDeployment)
+    );
+  },
+});
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import {
+  fetchDeployments,
+  summarizeDeployment,
+} from "../../../utils/deployments.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const deploymentAllByCompose = createTool({
+  name: "deployment-allByCompose",
+  description:
+    "Lists the deployment history of a Docker Compose service in Dokploy, newest first. Returns status, timestamps, title and description for each deployment.",
+  schema: z.object({
+    composeId: z
+      .string()
+      .min(1)
+      .describe("The ID of the compose service to list deployments for."),
+  }),
+  annotations: {
+    title: "List Compose Deployments",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const deployments = await fetchDeployments({
+      composeId: input.composeId,
+    });
+
+    return ResponseFormatter.success(
+      `Successfully fetched ${deployments.length} deployment(s) for compose "${input.composeId}"`,
+      deployments.map(summarizeDeployment)
+    );
+  },
+});
@@ -0,0 +1,114 @@
+import { z } from "zod";
+import {
+  fetchDeployments,
+  readDeploymentLog,
+  selectLogLines,
+  summarizeDeployment,
+} from "../../../utils/deployments.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const deploymentLogs = createTool({
+  name: "deployment-logs",
+  description:
+    "Fetches the build log of a specific deployment in Dokploy. Use tail to get the last N lines, or startLine/endLine to read a range.",
+  schema: z.object({
+    deploymentId: z
+      .string()
+      .min(1)
+      .describe("The ID of the deployment to read the log of."),
+    applicationId: z
+      .string()
+      .optional()
+      .describe("The ID of the application the deployment belongs to."),
+    composeId: z
+      .string()
+      .optional()
+      .describe("The ID of the compose service the deployment belongs to."),
+    serverId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe(
+        "The ID of the remote server the service runs on. Required for services deployed to a remote server."
+      ),
+    tail: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Only return the last N lines of the log."),
+    startLine: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("First line to return (1-based, inclusive)."),
+    endLine: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Last line to return (1-based, inclusive)."),
+  }),
+  annotations: {
+    title: "Read Deployment Log",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    if (input.applicationId && input.composeId) {
+      return ResponseFormatter.error(
+        "Invalid input for tool: deployment-logs",
+        "Validation errors: composeId: pass either applicationId or composeId, not both"
+      );
+    }
+    if (
+      input.startLine !== undefined &&
+      input.endLine !== undefined &&
+      input.startLine > input.endLine
+    ) {
+      return ResponseFormatter.error(
+        "Invalid input for tool: deployment-logs",
+        `Validation errors: endLine: must not be less than startLine (${input.startLine})`
+      );
+    }
+    if (!input.applicationId && !input.composeId) {
+      return ResponseFormatter.error(
+        "Missing deployment owner",
+        "Either applicationId or composeId is required to look up the deployment"
+      );
+    }
+
+    const deployments = await fetchDeployments({
+      applicationId: input.applicationId,
+      composeId: input.composeId,
+    });
+    const deployment = deployments.find(
+      (item) => item.deploymentId === input.deploymentId
+    );
+
+    if (!deployment) {
+      return ResponseFormatter.error(
+        "Deployment not found",
+        `Deployment "${input.deploymentId}" does not belong to ${input.composeId ? `compose "${input.composeId}"` : `application "${input.applicationId}"`}`
+      );
+    }
+
+    const allLines = await readDeploymentLog(deployment.logPath, {
+      serverId: input.serverId ?? deployment.serverId,
+    });
+    const { lines, firstLine } = selectLogLines(allLines, input);
+
+    return ResponseFormatter.success(
+      `Successfully fetched ${lines.length} log line(s) for deployment "${input.deploymentId}"`,
+      {
+        deployment: summarizeDeployment(deployment),
+        totalLines: allLines.length,
+        firstLine,
+        lines,
+      }
+    );
+  },
+});
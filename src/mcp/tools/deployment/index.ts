@@ -0,0 +1,3 @@
+export { deploymentAll } from "./deploymentAll.js";
+export { deploymentAllByCompose } from "./deploymentAllByCompose.js";
+export { deploymentLogs } from "./deploymentLogs.js";
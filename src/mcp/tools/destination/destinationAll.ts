@@ -0,0 +1,24 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const destinationAll = createTool({
+  name: "destination-all",
+  description: "Lists all S3 backup destinations in Dokploy.",
+  schema: z.object({}),
+  annotations: {
+    title: "List Backup Destinations",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async () => {
+    const response = await apiClient.get("/destination.all");
+
+    return ResponseFormatter.success(
+      "Successfully fetched backup destinations",
+      response.data
+    );
+  },
+});
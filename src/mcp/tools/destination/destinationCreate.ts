@@ -0,0 +1,41 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const destinationCreate = createTool({
+  name: "destination-create",
+  description: "Creates a new S3 backup destination in Dokploy.",
+  schema: z.object({
+    name: z.string().min(1).describe("The display name of the destination."),
+    provider: z
+      .string()
+      .nullable()
+      .describe(
+        "The S3-compatible provider (e.g. AWS, Cloudflare, Minio, DigitalOcean)."
+      ),
+    accessKey: z.string().describe("The S3 access key ID."),
+    secretAccessKey: z.string().describe("The S3 secret access key."),
+    bucket: z.string().describe("The bucket backups are stored in."),
+    region: z.string().describe("The bucket region."),
+    endpoint: z.string().describe("The S3 endpoint URL."),
+    serverId: z
+      .string()
+      .optional()
+      .describe("The ID of the remote server to run the connection from."),
+  }),
+  annotations: {
+    title: "Create Backup Destination",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/destination.create", input);
+
+    return ResponseFormatter.success(
+      `Backup destination "${input.name}" created successfully`,
+      response.data
+    );
+  },
+});
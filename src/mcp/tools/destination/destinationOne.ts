@@ -0,0 +1,38 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const destinationOne = createTool({
+  name: "destination-one",
+  description: "Gets a specific S3 backup destination by its ID in Dokploy.",
+  schema: z.object({
+    destinationId: z
+      .string()
+      .min(1)
+      .describe("The ID of the backup destination to retrieve."),
+  }),
+  annotations: {
+    title: "Get Backup Destination",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.get("/destination.one", {
+      params: { destinationId: input.destinationId },
+    });
+
+    if (!response?.data) {
+      return ResponseFormatter.error(
+        "Failed to fetch backup destination",
+        `Backup destination with ID "${input.destinationId}" not found`
+      );
+    }
+
+    return ResponseFormatter.success(
+      `Successfully fetched backup destination "${input.destinationId}"`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const destinationRemove = createTool({
+  name: "destination-remove",
+  description: "Removes an S3 backup destination from Dokploy.",
+  schema: z.object({
+    destinationId: z
+      .string()
+      .min(1)
+      .describe("The ID of the backup destination to remove."),
+  }),
+  annotations: {
+    title: "Remove Backup Destination",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/destination.remove", input);
+
+    return ResponseFormatter.success(
+      `Backup destination "${input.destinationId}" removed successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const destinationTestConnection = createTool({
+  name: "destination-testConnection",
+  description:
+    "Tests that Dokploy can reach and write to an S3 backup destination using the given credentials.",
+  schema: z.object({
+    name: z.string().min(1).describe("The display name of the destination."),
+    provider: z
+      .string()
+      .nullable()
+      .describe(
+        "The S3-compatible provider (e.g. AWS, Cloudflare, Minio, DigitalOcean)."
+      ),
+    accessKey: z.string().describe("The S3 access key ID."),
+    secretAccessKey: z.string().describe("The S3 secret access key."),
+    bucket: z.string().describe("The bucket backups are stored in."),
+    region: z.string().describe("The bucket region."),
+    endpoint: z.string().describe("The S3 endpoint URL."),
+    serverId: z
+      .string()
+      .optional()
+      .describe("The ID of the remote server to run the connection from."),
+  }),
+  annotations: {
+    title: "Test Backup Destination Connection",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/destination.testConnection", input);
+
+    return ResponseFormatter.success(
+      `Connection to backup destination "${input.name}" succeeded`,
+      response.data
+    );
+  },
+});
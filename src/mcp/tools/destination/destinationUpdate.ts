@@ -0,0 +1,45 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const destinationUpdate = createTool({
+  name: "destination-update",
+  description: "Updates an existing S3 backup destination in Dokploy.",
+  schema: z.object({
+    destinationId: z
+      .string()
+      .min(1)
+      .describe("The ID of the backup destination to update."),
+    name: z.string().min(1).describe("The display name of the destination."),
+    provider: z
+      .string()
+      .nullable()
+      .describe(
+        "The S3-compatible provider (e.g. AWS, Cloudflare, Minio, DigitalOcean)."
+      ),
+    accessKey: z.string().describe("The S3 access key ID."),
+    secretAccessKey: z.string().describe("The S3 secret access key."),
+    bucket: z.string().describe("The bucket backups are stored in."),
+    region: z.string().describe("The bucket region."),
+    endpoint: z.string().describe("The S3 endpoint URL."),
+    serverId: z
+      .string()
+      .optional()
+      .describe("The ID of the remote server to run the connection from."),
+  }),
+  annotations: {
+    title: "Update Backup Destination",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/destination.update", input);
+
+    return ResponseFormatter.success(
+      `Backup destination "${input.destinationId}" updated successfully`,
+      response.data
+    );
+  },
+});
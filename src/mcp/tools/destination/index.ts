@@ -0,0 +1,6 @@
+export { destinationAll } from "./destinationAll.js";
+export { destinationCreate } from "./destinationCreate.js";
+export { destinationOne } from "./destinationOne.js";
+export { destinationRemove } from "./destinationRemove.js";
+export { destinationTestConnection } from "./destinationTestConnection.js";
+export { destinationUpdate } from "./destinationUpdate.js";
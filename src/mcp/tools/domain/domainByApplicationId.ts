@@ -15,6 +15,7 @@ export const domainByApplicationId = createTool({
   }),
   annotations: {
     title: "Get Domains by Application ID",
+    readOnlyHint: true,
     destructiveHint: false,
     idempotentHint: true,
     openWorldHint: false,
@@ -15,6 +15,7 @@ export const domainByComposeId = createTool({
   }),
   annotations: {
     title: "Get Domains by Compose ID",
+    readOnlyHint: true,
     destructiveHint: false,
     idempotentHint: true,
     openWorldHint: false,
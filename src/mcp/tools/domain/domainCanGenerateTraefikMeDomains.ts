@@ -17,6 +17,7 @@ export const domainCanGenerateTraefikMeDomains = createTool({
   }),
   annotations: {
     title: "Can Generate Traefik.me Domains",
+    readOnlyHint: true,
     destructiveHint: false,
     idempotentHint: true,
     openWorldHint: false,
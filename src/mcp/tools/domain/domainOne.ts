@@ -12,6 +12,7 @@ export const domainOne = createTool({
   }),
   annotations: {
     title: "Get Domain by ID",
+    readOnlyHint: true,
     destructiveHint: false,
     idempotentHint: true,
     openWorldHint: false,
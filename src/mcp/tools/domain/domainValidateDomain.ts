@@ -19,6 +19,7 @@ export const domainValidateDomain = createTool({
   }),
   annotations: {
     title: "Validate Domain",
+    readOnlyHint: true,
     destructiveHint: false,
     idempotentHint: true,
     openWorldHint: false,
@@ -0,0 +1,318 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  diffEnv,
+  ENV_KEY_PATTERN,
+  getEnvVariables,
+  parseEnv,
+  serializeEnv,
+  setEnvVariable,
+  unsetEnvVariable,
+  type EnvLine,
+} from "../../../utils/dotenv.js";
+import {
+  isResponseRedactionEnabled,
+  isSecretVariable,
+  REDACTED,
+} from "../../../utils/redaction.js";
+import {
+  ResponseFormatter,
+  type FormattedResponse,
+} from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+// Dokploy services with an env blob, and how each one stores it
+const ENV_SERVICES = {
+  application: {
+    idParam: "applicationId",
+    label: "application",
+    title: "Application",
+    saveEndpoint: "/application.saveEnvironment",
+    // saveEnvironment also overwrites these, so they are sent back as read
+    keptFields: ["buildArgs", "buildSecrets"],
+  },
+  compose: {
+    idParam: "composeId",
+    label: "compose service",
+    title: "Compose",
+    // Dokploy has no compose.saveEnvironment endpoint
+    saveEndpoint: "/compose.update",
+    keptFields: [],
+  },
+  postgres: {
+    idParam: "postgresId",
+    label: "PostgreSQL database",
+    title: "PostgreSQL",
+    saveEndpoint: "/postgres.saveEnvironment",
+    keptFields: [],
+  },
+  mysql: {
+    idParam: "mysqlId",
+    label: "MySQL database",
+    title: "MySQL",
+    saveEndpoint: "/mysql.saveEnvironment",
+    keptFields: [],
+  },
+  mariadb: {
+    idParam: "mariadbId",
+    label: "MariaDB database",
+    title: "MariaDB",
+    saveEndpoint: "/mariadb.saveEnvironment",
+    keptFields: [],
+  },
+  mongo: {
+    idParam: "mongoId",
+    label: "MongoDB database",
+    title: "MongoDB",
+    saveEndpoint: "/mongo.saveEnvironment",
+    keptFields: [],
+  },
+  redis: {
+    idParam: "redisId",
+    label: "Redis instance",
+    title: "Redis",
+    saveEndpoint: "/redis.saveEnvironment",
+    keptFields: [],
+  },
+} as const;
+
+export type EnvService = keyof typeof ENV_SERVICES;
+
+const keySchema = z
+  .string()
+  .regex(ENV_KEY_PATTERN, "must be a valid environment variable name")
+  .describe("Name of the environment variable, e.g. DATABASE_URL.");
+
+// Shown by listEnv in place of values
+const MASK = "********";
+
+/**
+ * Creates the listEnv, getEnv, setEnv, unsetEnv and mergeEnv actions of a
+ * service. They edit single variables of the service's env blob, so comments,
+ * order and the other variables are written back unchanged.
+ */
+export function createEnvTools(service: EnvService) {
+  const { idParam, label, title, saveEndpoint, keptFields } =
+    ENV_SERVICES[service];
+  const idShape = {
+    [idParam]: z
+      .string()
+      .min(1)
+      .describe(`The ID of the ${label} whose environment to use.`),
+  };
+
+  // The id param is named per service, so it is not part of the input type
+  const getId = (input: Record<string, unknown>) => String(input[idParam]);
+
+  async function readEnv(
+    id: string
+  ): Promise<{ state: Record<string, unknown>; lines: EnvLine[] } | null> {
+    const response = await apiClient.get(`/${service}.one`, {
+      params: { [idParam]: id },
+    });
+    const state = response?.data;
+    if (!state || typeof state !== "object") {
+      return null;
+    }
+    return {
+      state,
+      lines: parseEnv(typeof state.env === "string" ? state.env : null),
+    };
+  }
+
+  function notFound(id: string): FormattedResponse {
+    return ResponseFormatter.error(
+      `Failed to fetch ${label}`,
+      `${title} with ID "${id}" not found`
+    );
+  }
+
+  /**
+   * Applies an edit of the given keys to the env blob and saves it, unless
+   * nothing changed. The blob is parsed again before saving, and it is not
+   * saved when any other variable would differ from what was read.
+   */
+  async function editEnv(
+    id: string,
+    keys: string[],
+    edit: (lines: EnvLine[]) => EnvLine[]
+  ): Promise<FormattedResponse> {
+    const current = await readEnv(id);
+    if (!current) {
+      return notFound(id);
+    }
+
+    const env = serializeEnv(edit(current.lines));
+    const changes = diffEnv(
+      getEnvVariables(current.lines),
+      getEnvVariables(parseEnv(env))
+    );
+    const unexpected = changes.filter(({ key }) => !keys.includes(key));
+    if (unexpected.length > 0) {
+      return ResponseFormatter.error(
+        "Environment not saved",
+        `Editing ${keys.join(", ")} of ${label} "${id}" would also change ${unexpected.map(({ key }) => key).join(", ")}, so nothing was saved. Check the env blob with get and fix it with saveEnvironment.`,
+        { changes }
+      );
+    }
+    if (changes.length === 0) {
+      return ResponseFormatter.success(
+        `Environment of ${label} "${id}" is already up to date`,
+        { changes }
+      );
+    }
+
+    await apiClient.post(saveEndpoint, {
+      [idParam]: id,
+      env,
+      ...Object.fromEntries(
+        keptFields
+          .filter((field) => current.state[field] !== undefined)
+          .map((field) => [field, current.state[field]])
+      ),
+    });
+
+    return ResponseFormatter.success(
+      `Environment of ${label} "${id}" updated: ${changes.length} variable(s) changed`,
+      { changes }
+    );
+  }
+
+  const listEnv = createTool({
+    name: `${service}-listEnv`,
+    description: `Lists the environment variables of a ${label} in Dokploy, in file order, with their values masked.`,
+    schema: z.object(idShape),
+    annotations: {
+      title: `List ${title} Environment Variables`,
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    handler: async (input) => {
+      const id = getId(input);
+      const current = await readEnv(id);
+      if (!current) {
+        return notFound(id);
+      }
+
+      const variables = [...getEnvVariables(current.lines)].map(
+        ([key, value]) => ({ key, value: value ? MASK : "" })
+      );
+      return ResponseFormatter.success(
+        `Found ${variables.length} environment variable(s) for ${label} "${id}"`,
+        { variables }
+      );
+    },
+  });
+
+  const getEnv = createTool({
+    name: `${service}-getEnv`,
+    description: `Gets the value of one environment variable of a ${label} in Dokploy.`,
+    schema: z.object({ ...idShape, key: keySchema }),
+    annotations: {
+      title: `Get ${title} Environment Variable`,
+      readOnlyHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    handler: async (input) => {
+      const id = getId(input);
+      const current = await readEnv(id);
+      if (!current) {
+        return notFound(id);
+      }
+
+      const value = getEnvVariables(current.lines).get(input.key);
+      if (value === undefined) {
+        return ResponseFormatter.error(
+          "Environment variable not found",
+          `${title} "${id}" has no environment variable "${input.key}"`
+        );
+      }
+      return ResponseFormatter.success(
+        `Fetched environment variable "${input.key}" of ${label} "${id}"`,
+        {
+          key: input.key,
+          value:
+            isResponseRedactionEnabled() && isSecretVariable(input.key)
+              ? REDACTED
+              : value,
+        }
+      );
+    },
+  });
+
+  const setEnv = createTool({
+    name: `${service}-setEnv`,
+    description: `Sets one environment variable of a ${label} in Dokploy, adding it at the end if it does not exist. Other variables and comments are kept.`,
+    schema: z.object({
+      ...idShape,
+      key: keySchema,
+      value: z.string().describe("The new value of the variable."),
+    }),
+    annotations: {
+      title: `Set ${title} Environment Variable`,
+      // Replaces the value when the variable already exists
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    handler: async (input) =>
+      editEnv(getId(input), [input.key], (lines) =>
+        setEnvVariable(lines, input.key, input.value)
+      ),
+  });
+
+  const unsetEnv = createTool({
+    name: `${service}-unsetEnv`,
+    description: `Removes environment variables of a ${label} in Dokploy. Other variables and comments are kept.`,
+    schema: z.object({
+      ...idShape,
+      keys: z
+        .array(keySchema)
+        .min(1)
+        .describe("Names of the environment variables to remove."),
+    }),
+    annotations: {
+      title: `Unset ${title} Environment Variables`,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    handler: async (input) =>
+      editEnv(getId(input), input.keys, (lines) =>
+        input.keys.reduce(unsetEnvVariable, lines)
+      ),
+  });
+
+  const mergeEnv = createTool({
+    name: `${service}-mergeEnv`,
+    description: `Sets several environment variables of a ${label} in Dokploy at once; a null value removes the variable. Variables that are not mentioned and comments are kept.`,
+    schema: z.object({
+      ...idShape,
+      variables: z
+        .record(keySchema, z.string().nullable())
+        .describe(
+          'Variables to set, e.g. {"NODE_ENV": "production", "DEBUG": null}.'
+        ),
+    }),
+    annotations: {
+      title: `Merge ${title} Environment Variables`,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    handler: async (input) =>
+      editEnv(getId(input), Object.keys(input.variables), (lines) =>
+        Object.entries(input.variables).reduce(
+          (result, [key, value]) =>
+            value === null
+              ? unsetEnvVariable(result, key)
+              : setEnvVariable(result, key, value),
+          lines
+        )
+      ),
+  });
+
+  return { listEnv, getEnv, setEnv, unsetEnv, mergeEnv };
+}
@@ -0,0 +1,9 @@
+import { createEnvTools } from "./createEnvTools.js";
+
+export const applicationEnvTools = createEnvTools("application");
+export const composeEnvTools = createEnvTools("compose");
+export const postgresEnvTools = createEnvTools("postgres");
+export const mysqlEnvTools = createEnvTools("mysql");
+export const mariadbEnvTools = createEnvTools("mariadb");
+export const mongoEnvTools = createEnvTools("mongo");
+export const redisEnvTools = createEnvTools("redis");
@@ -1,4 +1,5 @@
 import * as consolidatedTools from "./consolidated/index.js";
+import { createReadOnlyTool } from "./toolFactory.js";
 import { createLogger } from "../../utils/logger.js";
 
 const logger = createLogger("ToolLoader");
@@ -50,4 +51,24 @@ function getEnabledTools() {
   return filteredTools;
 }
 
-export const allTools = getEnabledTools();
+/**
+ * Restricts the enabled tools to their read-only actions when
+ * DOKPLOY_READ_ONLY is "true", dropping tools with no read-only action.
+ */
+function applyReadOnlyMode(tools: ReturnType<typeof getEnabledTools>) {
+  if (process.env.DOKPLOY_READ_ONLY !== "true") {
+    return tools;
+  }
+
+  const readOnlyTools = tools.flatMap((tool) => {
+    const readOnlyTool = createReadOnlyTool(tool);
+    return readOnlyTool ? [readOnlyTool] : [];
+  });
+  logger.info(
+    `Read-only mode enabled: mutating actions are disabled on ${readOnlyTools.length} tools`
+  );
+
+  return readOnlyTools;
+}
+
+export const allTools = applyReadOnlyMode(getEnabledTools());
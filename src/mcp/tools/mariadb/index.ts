@@ -0,0 +1,13 @@
+export { mariadbChangeStatus } from "./mariadbChangeStatus.js";
+export { mariadbCreate } from "./mariadbCreate.js";
+export { mariadbDeploy } from "./mariadbDeploy.js";
+export { mariadbMove } from "./mariadbMove.js";
+export { mariadbOne } from "./mariadbOne.js";
+export { mariadbRebuild } from "./mariadbRebuild.js";
+export { mariadbReload } from "./mariadbReload.js";
+export { mariadbRemove } from "./mariadbRemove.js";
+export { mariadbSaveEnvironment } from "./mariadbSaveEnvironment.js";
+export { mariadbSaveExternalPort } from "./mariadbSaveExternalPort.js";
+export { mariadbStart } from "./mariadbStart.js";
+export { mariadbStop } from "./mariadbStop.js";
+export { mariadbUpdate } from "./mariadbUpdate.js";
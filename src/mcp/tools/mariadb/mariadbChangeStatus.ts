@@ -0,0 +1,29 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbChangeStatus = createTool({
+  name: "mariadb-changeStatus",
+  description: "Changes the status of a MariaDB database in Dokploy.",
+  schema: z.object({
+    mariadbId: z.string().describe("The ID of the MariaDB database to update."),
+    applicationStatus: z
+      .enum(["idle", "running", "done", "error"])
+      .describe("The new status for the MariaDB database."),
+  }),
+  annotations: {
+    title: "Change MariaDB Database Status",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mariadb.changeStatus", input);
+
+    return ResponseFormatter.success(
+      `MariaDB database status changed to "${input.applicationStatus}" successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbCreate = createTool({
+  name: "mariadb-create",
+  description: "Creates a new MariaDB database in Dokploy.",
+  schema: z.object({
+    name: z.string().min(1).describe("The name of the MariaDB database."),
+    appName: z
+      .string()
+      .min(1)
+      .describe("The app name for the MariaDB database."),
+    databaseName: z
+      .string()
+      .min(1)
+      .describe("The name of the database to create."),
+    databaseUser: z
+      .string()
+      .min(1)
+      .describe("The username for database access."),
+    databasePassword: z
+      .string()
+      .regex(
+        /^[a-zA-Z0-9@#%^&*()_+\-=[\]{}|;:,.<>?~`]*$/,
+        "Password contains invalid characters"
+      )
+      .describe("The password for database access."),
+    databaseRootPassword: z
+      .string()
+      .regex(
+        /^[a-zA-Z0-9@#%^&*()_+\-=[\]{}|;:,.<>?~`]*$/,
+        "Root password contains invalid characters"
+      )
+      .describe("The root password for MariaDB."),
+    environmentId: z
+      .string()
+      .describe(
+        "The ID of the environment where the database will be created."
+      ),
+    dockerImage: z
+      .string()
+      .optional()
+      .default("mariadb:11")
+      .describe("Docker image to use for MariaDB."),
+    description: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("An optional description for the database."),
+    serverId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The ID of the server where the database will be deployed."),
+  }),
+  annotations: {
+    title: "Create MariaDB Database",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mariadb.create", input);
+
+    return ResponseFormatter.success(
+      `MariaDB database "${input.name}" created successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbDeploy = createTool({
+  name: "mariadb-deploy",
+  description: "Deploys a MariaDB database in Dokploy.",
+  schema: z.object({
+    mariadbId: z.string().describe("The ID of the MariaDB database to deploy."),
+    ...createDeploymentWaitShape(),
+  }),
+  annotations: {
+    title: "Deploy MariaDB Database",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Deployment of MariaDB database "${input.mariadbId}"`,
+        "/mariadb.one",
+        { mariadbId: input.mariadbId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/mariadb.deploy", payload)
+      );
+    }
+
+    const response = await apiClient.post("/mariadb.deploy", payload);
+
+    return ResponseFormatter.success(
+      "MariaDB database deployed successfully",
+      response.data
+    );
+  },
+});
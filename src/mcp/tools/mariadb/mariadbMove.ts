@@ -0,0 +1,30 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbMove = createTool({
+  name: "mariadb-move",
+  description:
+    "Moves a MariaDB database to a different environment in Dokploy.",
+  schema: z.object({
+    mariadbId: z.string().describe("The ID of the MariaDB database to move."),
+    targetEnvironmentId: z
+      .string()
+      .describe("The ID of the target environment to move the database to."),
+  }),
+  annotations: {
+    title: "Move MariaDB Database",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mariadb.move", input);
+
+    return ResponseFormatter.success(
+      "MariaDB database moved successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbOne = createTool({
+  name: "mariadb-one",
+  description: "Gets a specific MariaDB database by its ID in Dokploy.",
+  schema: z.object({
+    mariadbId: z
+      .string()
+      .describe("The ID of the MariaDB database to retrieve."),
+  }),
+  annotations: {
+    title: "Get MariaDB Database",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.get("/mariadb.one", {
+      params: { mariadbId: input.mariadbId },
+    });
+
+    return ResponseFormatter.success(
+      "MariaDB database retrieved successfully",
+      response.data
+    );
+  },
+});
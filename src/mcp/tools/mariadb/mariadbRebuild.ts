@@ -0,0 +1,45 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbRebuild = createTool({
+  name: "mariadb-rebuild",
+  description: "Rebuilds a MariaDB database in Dokploy.",
+  schema: z.object({
+    mariadbId: z
+      .string()
+      .describe("The ID of the MariaDB database to rebuild."),
+    ...createDeploymentWaitShape(),
+  }),
+  annotations: {
+    title: "Rebuild MariaDB Database",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Rebuild of MariaDB database "${input.mariadbId}"`,
+        "/mariadb.one",
+        { mariadbId: input.mariadbId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/mariadb.rebuild", payload)
+      );
+    }
+
+    const response = await apiClient.post("/mariadb.rebuild", payload);
+
+    return ResponseFormatter.success(
+      "MariaDB database rebuild initiated successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbReload = createTool({
+  name: "mariadb-reload",
+  description: "Reloads a MariaDB database configuration in Dokploy.",
+  schema: z.object({
+    mariadbId: z.string().describe("The ID of the MariaDB database to reload."),
+    appName: z
+      .string()
+      .min(1)
+      .describe("The app name for the MariaDB database."),
+    ...createDeploymentWaitShape(),
+  }),
+  annotations: {
+    title: "Reload MariaDB Database",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Reload of MariaDB database "${input.mariadbId}"`,
+        "/mariadb.one",
+        { mariadbId: input.mariadbId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/mariadb.reload", payload)
+      );
+    }
+
+    const response = await apiClient.post("/mariadb.reload", payload);
+
+    return ResponseFormatter.success(
+      "MariaDB database reloaded successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbRemove = createTool({
+  name: "mariadb-remove",
+  description: "Removes a MariaDB database from Dokploy.",
+  schema: z.object({
+    mariadbId: z.string().describe("The ID of the MariaDB database to remove."),
+  }),
+  annotations: {
+    title: "Remove MariaDB Database",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mariadb.remove", input);
+
+    return ResponseFormatter.success(
+      "MariaDB database removed successfully",
+      response.data
+    );
+  },
+});
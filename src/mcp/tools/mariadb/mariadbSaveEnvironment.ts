@@ -0,0 +1,33 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbSaveEnvironment = createTool({
+  name: "mariadb-saveEnvironment",
+  description: "Saves environment variables for a MariaDB database in Dokploy.",
+  schema: z.object({
+    mariadbId: z
+      .string()
+      .describe("The ID of the MariaDB database to configure."),
+    env: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("Environment variables to set for the MariaDB database."),
+  }),
+  annotations: {
+    title: "Save MariaDB Environment Variables",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mariadb.saveEnvironment", input);
+
+    return ResponseFormatter.success(
+      "MariaDB environment variables saved successfully",
+      response.data
+    );
+  },
+});
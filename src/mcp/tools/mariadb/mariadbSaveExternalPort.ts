@@ -0,0 +1,33 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbSaveExternalPort = createTool({
+  name: "mariadb-saveExternalPort",
+  description:
+    "Saves external port configuration for a MariaDB database in Dokploy.",
+  schema: z.object({
+    mariadbId: z
+      .string()
+      .describe("The ID of the MariaDB database to configure."),
+    externalPort: z
+      .number()
+      .nullable()
+      .describe("The external port number to expose the database on."),
+  }),
+  annotations: {
+    title: "Save MariaDB External Port",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mariadb.saveExternalPort", input);
+
+    return ResponseFormatter.success(
+      "MariaDB external port configuration saved successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbStart = createTool({
+  name: "mariadb-start",
+  description: "Starts a MariaDB database in Dokploy.",
+  schema: z.object({
+    mariadbId: z.string().describe("The ID of the MariaDB database to start."),
+  }),
+  annotations: {
+    title: "Start MariaDB Database",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mariadb.start", input);
+
+    return ResponseFormatter.success(
+      "MariaDB database started successfully",
+      response.data
+    );
+  },
+});
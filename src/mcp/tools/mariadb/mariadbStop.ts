@@ -0,0 +1,26 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mariadbStop = createTool({
+  name: "mariadb-stop",
+  description: "Stops a MariaDB database in Dokploy.",
+  schema: z.object({
+    mariadbId: z.string().describe("The ID of the MariaDB database to stop."),
+  }),
+  annotations: {
+    title: "Stop MariaDB Database",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mariadb.stop", input);
+
+    return ResponseFormatter.success(
+      "MariaDB database stopped successfully",
+      response.data
+    );
+  },
+});
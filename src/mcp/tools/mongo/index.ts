@@ -0,0 +1,13 @@
+export { mongoChangeStatus } from "./mongoChangeStatus.js";
+export { mongoCreate } from "./mongoCreate.js";
+export { mongoDeploy } from "./mongoDeploy.js";
+export { mongoMove } from "./mongoMove.js";
+export { mongoOne } from "./mongoOne.js";
+export { mongoRebuild } from "./mongoRebuild.js";
+export { mongoReload } from "./mongoReload.js";
+export { mongoRemove } from "./mongoRemove.js";
+export { mongoSaveEnvironment } from "./mongoSaveEnvironment.js";
+export { mongoSaveExternalPort } from "./mongoSaveExternalPort.js";
+export { mongoStart } from "./mongoStart.js";
+export { mongoStop } from "./mongoStop.js";
+export { mongoUpdate } from "./mongoUpdate.js";
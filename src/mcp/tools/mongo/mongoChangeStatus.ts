@@ -0,0 +1,29 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoChangeStatus = createTool({
+  name: "mongo-changeStatus",
+  description: "Changes the status of a MongoDB database in Dokploy.",
+  schema: z.object({
+    mongoId: z.string().describe("The ID of the MongoDB database to update."),
+    applicationStatus: z
+      .enum(["idle", "running", "done", "error"])
+      .describe("The new status for the MongoDB database."),
+  }),
+  annotations: {
+    title: "Change MongoDB Database Status",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mongo.changeStatus", input);
+
+    return ResponseFormatter.success(
+      `MongoDB database status changed to "${input.applicationStatus}" successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoCreate = createTool({
+  name: "mongo-create",
+  description: "Creates a new MongoDB database in Dokploy.",
+  schema: z.object({
+    name: z.string().min(1).describe("The name of the MongoDB database."),
+    appName: z
+      .string()
+      .min(1)
+      .describe("The app name for the MongoDB database."),
+    databaseUser: z
+      .string()
+      .min(1)
+      .describe("The username for database access."),
+    databasePassword: z
+      .string()
+      .regex(
+        /^[a-zA-Z0-9@#%^&*()_+\-=[\]{}|;:,.<>?~`]*$/,
+        "Password contains invalid characters"
+      )
+      .describe("The password for database access."),
+    environmentId: z
+      .string()
+      .describe(
+        "The ID of the environment where the database will be created."
+      ),
+    dockerImage: z
+      .string()
+      .optional()
+      .default("mongo:7")
+      .describe("Docker image to use for MongoDB."),
+    replicaSets: z
+      .boolean()
+      .nullable()
+      .optional()
+      .describe("Whether to run MongoDB as a replica set."),
+    description: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("An optional description for the database."),
+    serverId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The ID of the server where the database will be deployed."),
+  }),
+  annotations: {
+    title: "Create MongoDB Database",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mongo.create", input);
+
+    return ResponseFormatter.success(
+      `MongoDB database "${input.name}" created successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoDeploy = createTool({
+  name: "mongo-deploy",
+  description: "Deploys a MongoDB database in Dokploy.",
+  schema: z.object({
+    mongoId: z.string().describe("The ID of the MongoDB database to deploy."),
+    ...createDeploymentWaitShape(),
+  }),
+  annotations: {
+    title: "Deploy MongoDB Database",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Deployment of MongoDB database "${input.mongoId}"`,
+        "/mongo.one",
+        { mongoId: input.mongoId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/mongo.deploy", payload)
+      );
+    }
+
+    const response = await apiClient.post("/mongo.deploy", payload);
+
+    return ResponseFormatter.success(
+      "MongoDB database deployed successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,30 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoMove = createTool({
+  name: "mongo-move",
+  description:
+    "Moves a MongoDB database to a different environment in Dokploy.",
+  schema: z.object({
+    mongoId: z.string().describe("The ID of the MongoDB database to move."),
+    targetEnvironmentId: z
+      .string()
+      .describe("The ID of the target environment to move the database to."),
+  }),
+  annotations: {
+    title: "Move MongoDB Database",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mongo.move", input);
+
+    return ResponseFormatter.success(
+      "MongoDB database moved successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoOne = createTool({
+  name: "mongo-one",
+  description: "Gets a specific MongoDB database by its ID in Dokploy.",
+  schema: z.object({
+    mongoId: z.string().describe("The ID of the MongoDB database to retrieve."),
+  }),
+  annotations: {
+    title: "Get MongoDB Database",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.get("/mongo.one", {
+      params: { mongoId: input.mongoId },
+    });
+
+    return ResponseFormatter.success(
+      "MongoDB database retrieved successfully",
+      response.data
+    );
+  },
+});
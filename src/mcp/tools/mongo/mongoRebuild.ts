@@ -0,0 +1,43 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoRebuild = createTool({
+  name: "mongo-rebuild",
+  description: "Rebuilds a MongoDB database in Dokploy.",
+  schema: z.object({
+    mongoId: z.string().describe("The ID of the MongoDB database to rebuild."),
+    ...createDeploymentWaitShape(),
+  }),
+  annotations: {
+    title: "Rebuild MongoDB Database",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Rebuild of MongoDB database "${input.mongoId}"`,
+        "/mongo.one",
+        { mongoId: input.mongoId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/mongo.rebuild", payload)
+      );
+    }
+
+    const response = await apiClient.post("/mongo.rebuild", payload);
+
+    return ResponseFormatter.success(
+      "MongoDB database rebuild initiated successfully",
+      response.data
+    );
+  },
+});
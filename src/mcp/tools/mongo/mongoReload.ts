@@ -0,0 +1,47 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoReload = createTool({
+  name: "mongo-reload",
+  description: "Reloads a MongoDB database configuration in Dokploy.",
+  schema: z.object({
+    mongoId: z.string().describe("The ID of the MongoDB database to reload."),
+    appName: z
+      .string()
+      .min(1)
+      .describe("The app name for the MongoDB database."),
+    ...createDeploymentWaitShape(),
+  }),
+  annotations: {
+    title: "Reload MongoDB Database",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Reload of MongoDB database "${input.mongoId}"`,
+        "/mongo.one",
+        { mongoId: input.mongoId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/mongo.reload", payload)
+      );
+    }
+
+    const response = await apiClient.post("/mongo.reload", payload);
+
+    return ResponseFormatter.success(
+      "MongoDB database reloaded successfully",
+      response.data
+    );
+  },
+});
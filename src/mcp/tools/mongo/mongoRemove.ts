@@ -0,0 +1,26 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoRemove = createTool({
+  name: "mongo-remove",
+  description: "Removes a MongoDB database from Dokploy.",
+  schema: z.object({
+    mongoId: z.string().describe("The ID of the MongoDB database to remove."),
+  }),
+  annotations: {
+    title: "Remove MongoDB Database",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mongo.remove", input);
+
+    return ResponseFormatter.success(
+      "MongoDB database removed successfully",
+      response.data
+    );
+  },
+});
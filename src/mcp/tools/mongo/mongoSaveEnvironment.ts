@@ -0,0 +1,33 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoSaveEnvironment = createTool({
+  name: "mongo-saveEnvironment",
+  description: "Saves environment variables for a MongoDB database in Dokploy.",
+  schema: z.object({
+    mongoId: z
+      .string()
+      .describe("The ID of the MongoDB database to configure."),
+    env: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("Environment variables to set for the MongoDB database."),
+  }),
+  annotations: {
+    title: "Save MongoDB Environment Variables",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mongo.saveEnvironment", input);
+
+    return ResponseFormatter.success(
+      "MongoDB environment variables saved successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoSaveExternalPort = createTool({
+  name: "mongo-saveExternalPort",
+  description:
+    "Saves external port configuration for a MongoDB database in Dokploy.",
+  schema: z.object({
+    mongoId: z
+      .string()
+      .describe("The ID of the MongoDB database to configure."),
+    externalPort: z
+      .number()
+      .nullable()
+      .describe("The external port number to expose the database on."),
+  }),
+  annotations: {
+    title: "Save MongoDB External Port",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mongo.saveExternalPort", input);
+
+    return ResponseFormatter.success(
+      "MongoDB external port configuration saved successfully",
+      response.data
+    );
+  },
+});
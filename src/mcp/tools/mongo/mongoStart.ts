@@ -0,0 +1,26 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoStart = createTool({
+  name: "mongo-start",
+  description: "Starts a MongoDB database in Dokploy.",
+  schema: z.object({
+    mongoId: z.string().describe("The ID of the MongoDB database to start."),
+  }),
+  annotations: {
+    title: "Start MongoDB Database",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mongo.start", input);
+
+    return ResponseFormatter.success(
+      "MongoDB database started successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const mongoStop = createTool({
+  name: "mongo-stop",
+  description: "Stops a MongoDB database in Dokploy.",
+  schema: z.object({
+    mongoId: z.string().describe("The ID of the MongoDB database to stop."),
+  }),
+  annotations: {
+    title: "Stop MongoDB Database",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/mongo.stop", input);
+
+    return ResponseFormatter.success(
+      "MongoDB database stopped successfully",
+      response.data
+    );
+  },
+});
@@ -11,6 +11,7 @@ export const mysqlOne = createTool({
   }),
   annotations: {
     title: "Get MySQL Database",
+    readOnlyHint: true,
     destructiveHint: false,
     idempotentHint: true,
     openWorldHint: false,
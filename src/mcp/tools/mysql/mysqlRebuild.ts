@@ -1,5 +1,9 @@
 import { z } from "zod";
 import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
 import { createTool } from "../toolFactory.js";
 
@@ -8,6 +12,7 @@ export const mysqlRebuild = createTool({
   description: "Rebuilds a MySQL database in Dokploy.",
   schema: z.object({
     mysqlId: z.string().describe("The ID of the MySQL database to rebuild."),
+    ...createDeploymentWaitShape(),
   }),
   annotations: {
     title: "Rebuild MySQL Database",
@@ -15,8 +20,20 @@ export const mysqlRebuild = createTool({
     idempotentHint: false,
     openWorldHint: false,
   },
-  handler: async (input) => {
-    const response = await apiClient.post("/mysql.rebuild", input);
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Rebuild of MySQL database "${input.mysqlId}"`,
+        "/mysql.one",
+        { mysqlId: input.mysqlId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/mysql.rebuild", payload)
+      );
+    }
+
+    const response = await apiClient.post("/mysql.rebuild", payload);
 
     return ResponseFormatter.success(
       "MySQL database rebuild initiated successfully",
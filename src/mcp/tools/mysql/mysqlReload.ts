@@ -1,5 +1,9 @@
 import { z } from "zod";
 import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
 import { createTool } from "../toolFactory.js";
 
@@ -9,6 +13,7 @@ export const mysqlReload = createTool({
   schema: z.object({
     mysqlId: z.string().describe("The ID of the MySQL database to reload."),
     appName: z.string().min(1).describe("The app name for the MySQL database."),
+    ...createDeploymentWaitShape(),
   }),
   annotations: {
     title: "Reload MySQL Database",
@@ -16,8 +21,20 @@ export const mysqlReload = createTool({
     idempotentHint: true,
     openWorldHint: false,
   },
-  handler: async (input) => {
-    const response = await apiClient.post("/mysql.reload", input);
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Reload of MySQL database "${input.mysqlId}"`,
+        "/mysql.one",
+        { mysqlId: input.mysqlId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/mysql.reload", payload)
+      );
+    }
+
+    const response = await apiClient.post("/mysql.reload", payload);
 
     return ResponseFormatter.success(
       "MySQL database reloaded successfully",
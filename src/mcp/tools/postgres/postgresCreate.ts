@@ -40,7 +40,9 @@ export const postgresCreate = createTool({
       .string()
       .nullable()
       .optional()
-      .describe("The ID of the server where the database will be deployed."),
+      .describe(
+        "The ID of the remote server where the database will be deployed. Omit to deploy on the Dokploy host; use dokploy_server list to find server IDs."
+      ),
   }),
   annotations: {
     title: "Create PostgreSQL Database",
@@ -1,5 +1,9 @@
 import { z } from "zod";
 import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
 import { createTool } from "../toolFactory.js";
 
@@ -10,6 +14,7 @@ export const postgresDeploy = createTool({
     postgresId: z
       .string()
       .describe("The ID of the PostgreSQL database to deploy."),
+    ...createDeploymentWaitShape(),
   }),
   annotations: {
     title: "Deploy PostgreSQL Database",
@@ -17,8 +22,20 @@ export const postgresDeploy = createTool({
     idempotentHint: false,
     openWorldHint: true,
   },
-  handler: async (input) => {
-    const response = await apiClient.post("/postgres.deploy", input);
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Deployment of PostgreSQL database "${input.postgresId}"`,
+        "/postgres.one",
+        { postgresId: input.postgresId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/postgres.deploy", payload)
+      );
+    }
+
+    const response = await apiClient.post("/postgres.deploy", payload);
 
     return ResponseFormatter.success(
       `PostgreSQL database "${input.postgresId}" deployment started successfully`,
@@ -1,5 +1,9 @@
 import { z } from "zod";
 import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
 import { createTool } from "../toolFactory.js";
 
@@ -10,6 +14,7 @@ export const postgresRebuild = createTool({
     postgresId: z
       .string()
       .describe("The ID of the PostgreSQL database to rebuild."),
+    ...createDeploymentWaitShape(),
   }),
   annotations: {
     title: "Rebuild PostgreSQL Database",
@@ -17,8 +22,20 @@ export const postgresRebuild = createTool({
     idempotentHint: false,
     openWorldHint: true,
   },
-  handler: async (input) => {
-    const response = await apiClient.post("/postgres.rebuild", input);
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Rebuild of PostgreSQL database "${input.postgresId}"`,
+        "/postgres.one",
+        { postgresId: input.postgresId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/postgres.rebuild", payload)
+      );
+    }
+
+    const response = await apiClient.post("/postgres.rebuild", payload);
 
     return ResponseFormatter.success(
       `PostgreSQL database "${input.postgresId}" rebuild started successfully`,
@@ -1,5 +1,9 @@
 import { z } from "zod";
 import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
 import { ResponseFormatter } from "../../../utils/responseFormatter.js";
 import { createTool } from "../toolFactory.js";
 
@@ -13,6 +17,7 @@ export const postgresReload = createTool({
     appName: z
       .string()
       .describe("The app name of the PostgreSQL database to reload."),
+    ...createDeploymentWaitShape(),
   }),
   annotations: {
     title: "Reload PostgreSQL Database",
@@ -20,8 +25,20 @@ export const postgresReload = createTool({
     idempotentHint: false,
     openWorldHint: true,
   },
-  handler: async (input) => {
-    const response = await apiClient.post("/postgres.reload", input);
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Reload of PostgreSQL database "${input.postgresId}"`,
+        "/postgres.one",
+        { postgresId: input.postgresId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/postgres.reload", payload)
+      );
+    }
+
+    const response = await apiClient.post("/postgres.reload", payload);
 
     return ResponseFormatter.success(
       `PostgreSQL database "${input.postgresId}" reloaded successfully`,
@@ -0,0 +1,13 @@
+export { redisChangeStatus } from "./redisChangeStatus.js";
+export { redisCreate } from "./redisCreate.js";
+export { redisDeploy } from "./redisDeploy.js";
+export { redisMove } from "./redisMove.js";
+export { redisOne } from "./redisOne.js";
+export { redisRebuild } from "./redisRebuild.js";
+export { redisReload } from "./redisReload.js";
+export { redisRemove } from "./redisRemove.js";
+export { redisSaveEnvironment } from "./redisSaveEnvironment.js";
+export { redisSaveExternalPort } from "./redisSaveExternalPort.js";
+export { redisStart } from "./redisStart.js";
+export { redisStop } from "./redisStop.js";
+export { redisUpdate } from "./redisUpdate.js";
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const redisChangeStatus = createTool({
+  name: "redis-changeStatus",
+  description: "Changes the status of a Redis instance in Dokploy.",
+  schema: z.object({
+    redisId: z.string().describe("The ID of the Redis instance to update."),
+    applicationStatus: z
+      .enum(["idle", "running", "done", "error"])
+      .describe("The new status for the Redis instance."),
+  }),
+  annotations: {
+    title: "Change Redis Instance Status",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/redis.changeStatus", input);
+
+    return ResponseFormatter.success(
+      `Redis instance status changed to "${input.applicationStatus}" successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const redisCreate = createTool({
+  name: "redis-create",
+  description: "Creates a new Redis instance in Dokploy.",
+  schema: z.object({
+    name: z.string().min(1).describe("The name of the Redis instance."),
+    appName: z.string().min(1).describe("The app name for the Redis instance."),
+    databasePassword: z
+      .string()
+      .regex(
+        /^[a-zA-Z0-9@#%^&*()_+\-=[\]{}|;:,.<>?~`]*$/,
+        "Password contains invalid characters"
+      )
+      .describe("The password for database access."),
+    environmentId: z
+      .string()
+      .describe(
+        "The ID of the environment where the database will be created."
+      ),
+    dockerImage: z
+      .string()
+      .optional()
+      .default("redis:7")
+      .describe("Docker image to use for Redis."),
+    description: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("An optional description for the database."),
+    serverId: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("The ID of the server where the database will be deployed."),
+  }),
+  annotations: {
+    title: "Create Redis Instance",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/redis.create", input);
+
+    return ResponseFormatter.success(
+      `Redis instance "${input.name}" created successfully`,
+      response.data
+    );
+  },
+});
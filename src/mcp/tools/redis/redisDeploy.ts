@@ -0,0 +1,43 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const redisDeploy = createTool({
+  name: "redis-deploy",
+  description: "Deploys a Redis instance in Dokploy.",
+  schema: z.object({
+    redisId: z.string().describe("The ID of the Redis instance to deploy."),
+    ...createDeploymentWaitShape(),
+  }),
+  annotations: {
+    title: "Deploy Redis Instance",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Deployment of Redis instance "${input.redisId}"`,
+        "/redis.one",
+        { redisId: input.redisId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/redis.deploy", payload)
+      );
+    }
+
+    const response = await apiClient.post("/redis.deploy", payload);
+
+    return ResponseFormatter.success(
+      "Redis instance deployed successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const redisMove = createTool({
+  name: "redis-move",
+  description: "Moves a Redis instance to a different environment in Dokploy.",
+  schema: z.object({
+    redisId: z.string().describe("The ID of the Redis instance to move."),
+    targetEnvironmentId: z
+      .string()
+      .describe("The ID of the target environment to move the database to."),
+  }),
+  annotations: {
+    title: "Move Redis Instance",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/redis.move", input);
+
+    return ResponseFormatter.success(
+      "Redis instance moved successfully",
+      response.data
+    );
+  },
+});
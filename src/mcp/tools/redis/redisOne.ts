@@ -0,0 +1,29 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const redisOne = createTool({
+  name: "redis-one",
+  description: "Gets a specific Redis instance by its ID in Dokploy.",
+  schema: z.object({
+    redisId: z.string().describe("The ID of the Redis instance to retrieve."),
+  }),
+  annotations: {
+    title: "Get Redis Instance",
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.get("/redis.one", {
+      params: { redisId: input.redisId },
+    });
+
+    return ResponseFormatter.success(
+      "Redis instance retrieved successfully",
+      response.data
+    );
+  },
+});
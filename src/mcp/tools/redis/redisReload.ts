@@ -0,0 +1,44 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import {
+  createDeploymentWaitShape,
+  waitForServiceStatus,
+} from "../../../utils/deploymentWait.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const redisReload = createTool({
+  name: "redis-reload",
+  description: "Reloads a Redis instance configuration in Dokploy.",
+  schema: z.object({
+    redisId: z.string().describe("The ID of the Redis instance to reload."),
+    appName: z.string().min(1).describe("The app name for the Redis instance."),
+    ...createDeploymentWaitShape(),
+  }),
+  annotations: {
+    title: "Reload Redis Instance",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input, extra) => {
+    const { wait, waitTimeoutSeconds, logLines, ...payload } = input;
+
+    if (wait) {
+      return waitForServiceStatus(
+        `Reload of Redis instance "${input.redisId}"`,
+        "/redis.one",
+        { redisId: input.redisId },
+        { timeoutSeconds: waitTimeoutSeconds, logLines, extra },
+        () => apiClient.post("/redis.reload", payload)
+      );
+    }
+
+    const response = await apiClient.post("/redis.reload", payload);
+
+    return ResponseFormatter.success(
+      "Redis instance reloaded successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const redisRemove = createTool({
+  name: "redis-remove",
+  description: "Removes a Redis instance from Dokploy.",
+  schema: z.object({
+    redisId: z.string().describe("The ID of the Redis instance to remove."),
+  }),
+  annotations: {
+    title: "Remove Redis Instance",
+    destructiveHint: true,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/redis.remove", input);
+
+    return ResponseFormatter.success(
+      "Redis instance removed successfully",
+      response.data
+    );
+  },
+});
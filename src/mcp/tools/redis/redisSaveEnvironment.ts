@@ -0,0 +1,31 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const redisSaveEnvironment = createTool({
+  name: "redis-saveEnvironment",
+  description: "Saves environment variables for a Redis instance in Dokploy.",
+  schema: z.object({
+    redisId: z.string().describe("The ID of the Redis instance to configure."),
+    env: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("Environment variables to set for the Redis instance."),
+  }),
+  annotations: {
+    title: "Save Redis Environment Variables",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/redis.saveEnvironment", input);
+
+    return ResponseFormatter.success(
+      "Redis environment variables saved successfully",
+      response.data
+    );
+  },
+});
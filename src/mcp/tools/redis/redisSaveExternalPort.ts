@@ -0,0 +1,31 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const redisSaveExternalPort = createTool({
+  name: "redis-saveExternalPort",
+  description:
+    "Saves external port configuration for a Redis instance in Dokploy.",
+  schema: z.object({
+    redisId: z.string().describe("The ID of the Redis instance to configure."),
+    externalPort: z
+      .number()
+      .nullable()
+      .describe("The external port number to expose the database on."),
+  }),
+  annotations: {
+    title: "Save Redis External Port",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/redis.saveExternalPort", input);
+
+    return ResponseFormatter.success(
+      "Redis external port configuration saved successfully",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const redisStart = createTool({
+  name: "redis-start",
+  description: "Starts a Redis instance in Dokploy.",
+  schema: z.object({
+    redisId: z.string().describe("The ID of the Redis instance to start."),
+  }),
+  annotations: {
+    title: "Start Redis Instance",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/redis.start", input);
+
+    return ResponseFormatter.success(
+      "Redis instance started successfully",
+      response.data
+    );
+  },
+});
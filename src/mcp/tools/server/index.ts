@@ -0,0 +1,7 @@
+export { serverAll } from "./serverAll.js";
+export { serverCreate } from "./serverCreate.js";
+export { serverOne } from "./serverOne.js";
+export { serverRemove } from "./serverRemove.js";
+export { serverSetup } from "./serverSetup.js";
+export { serverUpdate } from "./serverUpdate.js";
+export { serverValidate } from "./serverValidate.js";
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const serverAll = createTool({
+  name: "server-all",
+  description:
+    "Lists all remote servers registered in Dokploy, including their connection details and status.",
+  schema: z.object({}),
+  annotations: {
+    title: "List Servers",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async () => {
+    const response = await apiClient.get("/server.all");
+
+    return ResponseFormatter.success(
+      "Successfully fetched servers",
+      response.data
+    );
+  },
+});
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const serverCreate = createTool({
+  name: "server-create",
+  description:
+    "Registers a new remote server in Dokploy. Run server-setup afterwards to install Docker and the Dokploy agent.",
+  schema: z.object({
+    name: z.string().min(1).describe("The display name of the server."),
+    description: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("An optional description of the server."),
+    ipAddress: z
+      .string()
+      .min(1)
+      .describe("The IP address or hostname Dokploy connects to over SSH."),
+    port: z.number().int().min(1).max(65535).describe("The SSH port."),
+    username: z.string().min(1).describe("The SSH user (usually root)."),
+    sshKeyId: z
+      .string()
+      .nullable()
+      .describe("The ID of the SSH key Dokploy uses to connect."),
+    serverType: z
+      .enum(["deploy", "build"])
+      .optional()
+      .default("deploy")
+      .describe(
+        "Whether the server runs workloads (deploy) or only builds images (build)."
+      ),
+  }),
+  annotations: {
+    title: "Create Server",
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/server.create", input);
+
+    return ResponseFormatter.success(
+      `Server "${input.name}" created successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const serverSetup = createTool({
+  name: "server-setup",
+  description:
+    "Runs the Dokploy setup script on a remote server over SSH, installing Docker, Traefik and the build tooling.",
+  schema: z.object({
+    serverId: z.string().min(1).describe("The ID of the server to set up."),
+  }),
+  annotations: {
+    title: "Set Up Server",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/server.setup", input);
+
+    return ResponseFormatter.success(
+      `Server "${input.serverId}" set up successfully`,
+      response.data
+    );
+  },
+});
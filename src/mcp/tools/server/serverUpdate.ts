@@ -0,0 +1,53 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const serverUpdate = createTool({
+  name: "server-update",
+  description: "Updates the connection details of a remote server in Dokploy.",
+  schema: z.object({
+    serverId: z.string().min(1).describe("The ID of the server to update."),
+    name: z.string().min(1).describe("The display name of the server."),
+    description: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("An optional description of the server."),
+    ipAddress: z
+      .string()
+      .min(1)
+      .describe("The IP address or hostname Dokploy connects to over SSH."),
+    port: z.number().int().min(1).max(65535).describe("The SSH port."),
+    username: z.string().min(1).describe("The SSH user (usually root)."),
+    sshKeyId: z
+      .string()
+      .nullable()
+      .describe("The ID of the SSH key Dokploy uses to connect."),
+    serverType: z
+      .enum(["deploy", "build"])
+      .optional()
+      .default("deploy")
+      .describe(
+        "Whether the server runs workloads (deploy) or only builds images (build)."
+      ),
+    command: z
+      .string()
+      .optional()
+      .describe("Custom setup command to run instead of the default script."),
+  }),
+  annotations: {
+    title: "Update Server",
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.post("/server.update", input);
+
+    return ResponseFormatter.success(
+      `Server "${input.serverId}" updated successfully`,
+      response.data
+    );
+  },
+});
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import apiClient from "../../../utils/apiClient.js";
+import { ResponseFormatter } from "../../../utils/responseFormatter.js";
+import { createTool } from "../toolFactory.js";
+
+export const serverValidate = createTool({
+  name: "server-validate",
+  description:
+    "Checks a remote server's readiness in Dokploy, reporting whether Docker, RClone, Nixpacks, Buildpacks and Railpack are installed and Swarm is initialized.",
+  schema: z.object({
+    serverId: z.string().min(1).describe("The ID of the server to validate."),
+  }),
+  annotations: {
+    title: "Validate Server",
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  handler: async (input) => {
+    const response = await apiClient.get("/server.validate", {
+      params: { serverId: input.serverId },
+    });
+
+    return ResponseFormatter.success(
+      `Successfully validated server "${input.serverId}"`,
+      response.data
+    );
+  },
+});
@@ -1,10 +1,40 @@
-import { z, ZodObject, ZodRawShape } from "zod";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  z,
+  ZodDefault,
+  ZodObject,
+  ZodRawShape,
+  ZodType,
+  ZodTypeAny,
+  ZodTypeDef,
+  type ZodIssue,
+} from "zod";
 import apiClient from "../../utils/apiClient.js";
+import {
+  classifyDokployError,
+  DOKPLOY_ERROR_SUMMARIES,
+} from "../../utils/dokployErrors.js";
+import { DryRunInterrupt } from "../../utils/dryRun.js";
 import { createLogger } from "../../utils/logger.js";
+import {
+  containsRedacted,
+  isResponseRedactionEnabled,
+  REDACTED,
+} from "../../utils/redaction.js";
 import { ResponseFormatter } from "../../utils/responseFormatter.js";
 
+// Request context the MCP SDK passes alongside tool arguments
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
 // Updated to match MCP SDK response format
-export type ToolHandler<T> = (input: T) => Promise<{
+export type ToolHandler<T> = (
+  input: T,
+  extra?: ToolExtra
+) => Promise<{
   content: { type: "text"; text: string }[];
   isError?: boolean;
 }>;
@@ -16,13 +46,31 @@ export interface ToolDefinition<TShape extends ZodRawShape> {
   description: string;
   schema: ZodObject<TShape>; // The schema must be a ZodObject
   handler: ToolHandler<z.infer<ZodObject<TShape>>>; // Handler input is inferred from the ZodObject
-  annotations?: {
-    title?: string;
-    readOnlyHint?: boolean;
-    destructiveHint?: boolean;
-    idempotentHint?: boolean;
-    openWorldHint?: boolean;
-  };
+  annotations?: ToolAnnotations;
+  // Individual tools a consolidated tool dispatches to, keyed by action
+  actions?: Record<string, ActionTool>;
+}
+
+// A tool as createTool returns it. Its handler validates the arguments
+// against the schema itself, so it takes any object.
+export interface Tool<TShape extends ZodRawShape = ZodRawShape>
+  extends Omit<ToolDefinition<TShape>, "handler"> {
+  handler: ToolHandler<Record<string, unknown>>;
+}
+
+export type ToolAnnotations = {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+};
+
+// The parts of an individual tool a consolidated tool's action relies on
+export interface ActionTool {
+  schema: ZodObject<ZodRawShape>;
+  annotations?: ToolAnnotations;
+  handler: ToolHandler<Record<string, unknown>>;
 }
 
 interface ToolContext {
@@ -39,79 +87,238 @@ export function createToolContext(): ToolContext {
   };
 }
 
+/**
+ * An action's schema that accepts the same params but returns them as they
+ * were sent: unknown keys are kept and no defaults are filled in, so the
+ * variant that happens to match first in a union cannot alter them
+ */
+function asPassthroughParams(schema: ZodObject<ZodRawShape>): ZodTypeAny {
+  const shape = Object.fromEntries(
+    Object.entries(schema.shape).map(([key, field]) => {
+      if (!(field instanceof ZodDefault)) {
+        return [key, field];
+      }
+      const optional = field.removeDefault().optional();
+      return [
+        key,
+        field.description ? optional.describe(field.description) : optional,
+      ];
+    })
+  );
+  return z.object(shape).passthrough();
+}
+
+/**
+ * Builds the params schema of a consolidated tool from the schemas of the
+ * individual tools it dispatches to, so clients see the exact parameters of
+ * every action instead of an opaque record.
+ *
+ * Each variant is labelled with the action it belongs to. The SDK validates
+ * arguments against this schema before the handler runs, where a union
+ * error would list the issues of every action, so params that fit no
+ * variant are handed on as sent and checked against the chosen action's
+ * schema alone by createActionSchema.
+ */
+export function createActionParams(
+  actions: Record<string, ActionTool>
+): ZodType<Record<string, unknown>, ZodTypeDef, unknown> {
+  const variants = Object.entries(actions).map(([action, tool]) =>
+    asPassthroughParams(tool.schema).describe(
+      `Parameters when action is "${action}".`
+    )
+  );
+  const [first, second, ...rest] = variants;
+  if (!first) {
+    return z.object({}).passthrough();
+  }
+
+  return (second ? z.union([first, second, ...rest]) : first).catch(
+    ({ input }: { input: unknown }) => input as Record<string, unknown>
+  );
+}
+
+/**
+ * Discriminated union on action of each action's own params schema, which
+ * consolidated tools check before dispatching
+ */
+export function createActionSchema(actions: Record<string, ActionTool>) {
+  const variants = Object.entries(actions).map(([action, tool]) =>
+    z.object({ action: z.literal(action), params: tool.schema })
+  );
+  const [first, ...rest] = variants;
+  return first ? z.discriminatedUnion("action", [first, ...rest]) : null;
+}
+
+// Action names that are destructive on every tool, plus prefixed variants
+// such as domainDelete and destinationRemove
+const DESTRUCTIVE_ACTION_PATTERN =
+  /^(delete|remove|stop|rebuild|saveEnvironment|setEnv|unsetEnv|mergeEnv)$|(Delete|Remove)$/;
+
+/**
+ * Picks the destructive actions out of a consolidated tool's action map.
+ * MCP annotations apply to a whole tool, so these are advertised alongside
+ * destructiveHint for clients that gate individual actions.
+ */
+export function getDestructiveActions(actions: Record<string, unknown>) {
+  return Object.keys(actions).filter((action) =>
+    DESTRUCTIVE_ACTION_PATTERN.test(action)
+  );
+}
+
+/**
+ * Picks the actions whose individual tool is annotated readOnlyHint, the
+ * only ones available in DOKPLOY_READ_ONLY mode
+ */
+export function getReadOnlyActions(actions: Record<string, ActionTool>) {
+  return Object.keys(actions).filter(
+    (action) => actions[action]?.annotations?.readOnlyHint === true
+  );
+}
+
+/**
+ * Restricts a consolidated tool to its read-only actions. Mutating actions
+ * are dropped from the action enum and the params schema, and the handler
+ * rejects them too, for clients that skip schema validation. Returns null
+ * when the tool has nothing left to offer.
+ */
+export function createReadOnlyTool(tool: Tool): Tool | null {
+  if (!tool.actions) {
+    return tool.annotations?.readOnlyHint ? tool : null;
+  }
+
+  const actions = tool.actions;
+  const readOnlyActions = getReadOnlyActions(actions);
+  if (readOnlyActions.length === 0) {
+    return null;
+  }
+  if (readOnlyActions.length === Object.keys(actions).length) {
+    return tool;
+  }
+
+  const readOnlyMap = Object.fromEntries(
+    readOnlyActions.map((action) => [action, actions[action]!])
+  );
+  const shape: ZodRawShape = tool.schema.shape;
+  const note = `Read-only mode: the available actions are ${readOnlyActions.join(", ")}.`;
+
+  return {
+    ...tool,
+    description: `${tool.description}\n\n${note}`,
+    schema: tool.schema.extend({
+      action: z
+        .enum(readOnlyActions as [string, ...string[]])
+        .describe(`${shape.action?.description ?? ""}\n\n${note}`),
+      params: createActionParams(readOnlyMap)
+        .optional()
+        .describe(shape.params?.description ?? ""),
+    }),
+    annotations: {
+      ...tool.annotations,
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
+    actions: readOnlyMap,
+    handler: async (input, extra) => {
+      const action = String(input.action);
+      if (!readOnlyActions.includes(action)) {
+        return ResponseFormatter.error(
+          "Read-only mode",
+          `Action "${action}" of ${tool.name} changes Dokploy state and is disabled by DOKPLOY_READ_ONLY`
+        );
+      }
+
+      return tool.handler(input, extra);
+    },
+  };
+}
+
 export function createTool<TShape extends import("zod").ZodRawShape>(
   definition: ToolDefinition<TShape>
-): ToolDefinition<TShape> {
+): Tool<TShape> {
+  const actionSchema =
+    definition.actions && createActionSchema(definition.actions);
+
   return {
     ...definition,
-    handler: async (input) => {
+    handler: async (input, extra) => {
       const context = createToolContext();
 
+      const invalidInput = (errors: ZodIssue[]) => {
+        context.logger.warn(
+          `Input validation failed for tool: ${definition.name}`,
+          {
+            errors,
+            input,
+          }
+        );
+
+        const errorMessages = errors
+          .map((err) => `${err.path.join(".")}: ${err.message}`)
+          .join(", ");
+
+        return ResponseFormatter.error(
+          `Invalid input for tool: ${definition.name}`,
+          `Validation errors: ${errorMessages}`
+        );
+      };
+
       try {
         // Validate input against schema
         const validationResult = definition.schema.safeParse(input);
         if (!validationResult.success) {
-          context.logger.warn(
-            `Input validation failed for tool: ${definition.name}`,
-            {
-              errors: validationResult.error.errors,
-              input,
-            }
-          );
+          return invalidInput(validationResult.error.errors);
+        }
 
-          const errorMessages = validationResult.error.errors
-            .map((err) => `${err.path.join(".")}: ${err.message}`)
-            .join(", ");
+        // Consolidated tools: params must fit the schema of the chosen action
+        if (actionSchema) {
+          const { action, params } = validationResult.data;
+          const actionResult = actionSchema.safeParse({
+            action,
+            params: params ?? {},
+          });
+          if (!actionResult.success) {
+            return invalidInput(actionResult.error.errors);
+          }
+        }
 
+        // A value copied from a redacted response would overwrite the secret
+        if (
+          isResponseRedactionEnabled() &&
+          containsRedacted(validationResult.data)
+        ) {
           return ResponseFormatter.error(
-            `Invalid input for tool: ${definition.name}`,
-            `Validation errors: ${errorMessages}`
+            `Redacted value in input for tool: ${definition.name}`,
+            `The input contains "${REDACTED}", copied from a redacted response. Pass the real value, or leave the field out to keep the current one.`
           );
         }
 
         context.logger.info(`Executing tool: ${definition.name}`, {
           input: validationResult.data,
+          clientId: extra?.authInfo?.clientId,
         });
-        const result = await definition.handler(validationResult.data);
+        const result = await definition.handler(validationResult.data, extra);
         context.logger.info(`Tool executed successfully: ${definition.name}`);
         return result;
       } catch (error) {
+        // A dry run stopped the action on purpose before it changed anything
+        if (error instanceof DryRunInterrupt) {
+          throw error;
+        }
+
         context.logger.error(`Tool execution failed: ${definition.name}`, {
           error: error instanceof Error ? error.message : "Unknown error",
           input,
         });
 
-        // More specific error handling based on error types
-        if (error instanceof Error) {
-          if (
-            error.message.includes("401") ||
-            error.message.includes("Unauthorized")
-          ) {
-            return ResponseFormatter.error(
-              `Authentication failed for tool: ${definition.name}`,
-              "Please check your DOKPLOY_API_KEY configuration"
-            );
-          }
-
-          if (
-            error.message.includes("404") ||
-            error.message.includes("Not Found")
-          ) {
-            return ResponseFormatter.error(
-              `Resource not found`,
-              `The requested resource for ${definition.name} could not be found`
-            );
-          }
-
-          if (
-            error.message.includes("500") ||
-            error.message.includes("Internal Server Error")
-          ) {
-            return ResponseFormatter.error(
-              `Server error occurred`,
-              `Dokploy server encountered an internal error while processing ${definition.name}`
-            );
-          }
+        // Failed Dokploy API calls carry a typed code and Dokploy's message
+        const dokployError = classifyDokployError(error);
+        if (dokployError) {
+          return ResponseFormatter.error(
+            `${DOKPLOY_ERROR_SUMMARIES[dokployError.code]} for tool: ${definition.name}`,
+            dokployError.message,
+            dokployError
+          );
         }
 
         return ResponseFormatter.error(
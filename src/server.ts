@@ -1,15 +1,152 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { allPrompts } from "./mcp/prompts/index.js";
+import { allResources } from "./mcp/resources/index.js";
+import {
+  getSubscriptionSettings,
+  ResourceSubscriptionManager,
+  type SubscriptionSettings,
+} from "./mcp/resources/subscriptions.js";
 import { allTools } from "./mcp/tools/index.js";
+import {
+  getDestructiveActions,
+  type ToolHandler,
+} from "./mcp/tools/toolFactory.js";
+import {
+  runWithDokployConnection,
+  type DokployConnection,
+} from "./utils/apiClient.js";
+import { auditToolCall } from "./utils/audit.js";
+import {
+  confirmationTokenSchema,
+  ConfirmationGate,
+  getConfirmableActions,
+  isConfirmationRequired,
+} from "./utils/confirmation.js";
+import { authorizeToolCall } from "./utils/oauth.js";
+import { ResponseFormatter } from "./utils/responseFormatter.js";
+
+export interface CreateServerOptions {
+  // Dokploy credentials of the HTTP session; the server default when omitted
+  connection?: DokployConnection | null;
+  // Poller settings for resource subscriptions; environment defaults when omitted
+  subscriptions?: SubscriptionSettings;
+}
+
+export function createServer(options: CreateServerOptions = {}) {
+  const { connection } = options;
+
+  // Runs Dokploy calls with the session's own client when it has one
+  const withConnection = <T>(fn: () => T): T =>
+    connection ? runWithDokployConnection(connection, fn) : fn();
 
-export function createServer() {
   const server = new McpServer({
     name: "dokploy",
     version: "1.0.0",
   });
 
+  // Holds destructive actions back until confirmed, when enabled
+  const confirmations = isConfirmationRequired()
+    ? new ConfirmationGate(server.server)
+    : null;
+
   for (const tool of allTools) {
-    server.tool(tool.name, tool.description, tool.schema.shape, tool.handler);
+    // Every call is audited, including the ones that are denied
+    const handler: ToolHandler<Record<string, unknown>> = (input, extra) =>
+      withConnection(() =>
+        auditToolCall(tool.name, input, extra, async () => {
+          // OAuth tokens may only call the tools and actions their scopes allow
+          const denied = authorizeToolCall(
+            extra?.authInfo,
+            tool.name,
+            typeof input.action === "string" ? input.action : undefined
+          );
+          if (denied) {
+            return ResponseFormatter.error("Insufficient scope", denied);
+          }
+
+          const unconfirmed = await confirmations?.check(tool, input, extra);
+          return unconfirmed ?? tool.handler(input, extra);
+        })
+      );
+
+    const destructiveActions = getDestructiveActions(tool.actions ?? {});
+    const confirmableActions = confirmations
+      ? getConfirmableActions(tool.actions ?? {})
+      : [];
+    let description = tool.description;
+    // Spelled out in the description too, for clients that ignore _meta
+    if (destructiveActions.length > 0) {
+      description += `\n\nDestructive actions (confirm with the user before calling): ${destructiveActions.join(", ")}.`;
+    }
+    if (confirmableActions.length > 0) {
+      description += `\n\nThese actions return a summary and a confirmationToken instead of running; repeat the call with the token once the user agrees: ${confirmableActions.join(", ")}.`;
+    }
+
+    server.registerTool(
+      tool.name,
+      {
+        description,
+        inputSchema:
+          confirmableActions.length > 0
+            ? {
+                ...tool.schema.shape,
+                confirmationToken: confirmationTokenSchema,
+              }
+            : tool.schema.shape,
+        ...(tool.annotations && { annotations: tool.annotations }),
+        ...(destructiveActions.length > 0 && {
+          _meta: { "dokploy/destructiveActions": destructiveActions },
+        }),
+      },
+      handler
+    );
+  }
+
+  for (const resource of allResources) {
+    const { list } = resource;
+    const template = new ResourceTemplate(resource.uriTemplate, {
+      list:
+        list &&
+        (async (extra) => ({
+          resources: await withConnection(() => list(extra)),
+        })),
+    });
+
+    server.registerResource(
+      resource.name,
+      template,
+      {
+        title: resource.title,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      },
+      (uri, variables, extra) =>
+        withConnection(() => resource.read(uri, variables, extra))
+    );
   }
 
+  for (const prompt of allPrompts) {
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: prompt.argsSchema,
+      },
+      prompt.callback
+    );
+  }
+
+  const subscriptions = new ResourceSubscriptionManager(
+    server.server,
+    options.subscriptions ?? getSubscriptionSettings(),
+    withConnection
+  );
+  subscriptions.register();
+  server.server.onclose = () => subscriptions.stop();
+
   return server;
 }
@@ -106,6 +106,22 @@ export interface DokployRedis {
   [key: string]: unknown; // Allow additional properties
 }
 
+export interface DokployDeployment {
+  deploymentId: string;
+  title: string;
+  description?: string | null;
+  status: "running" | "done" | "error" | string;
+  logPath: string;
+  applicationId?: string | null;
+  composeId?: string | null;
+  serverId?: string | null;
+  createdAt: string;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+  errorMessage?: string | null;
+  [key: string]: unknown; // Allow additional properties
+}
+
 // Utility type for external API responses where we can't guarantee full typing
 export type ExternalApiResponse<T = Record<string, unknown>> = T & {
   [key: string]: unknown;
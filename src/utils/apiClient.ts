@@ -1,98 +1,278 @@
 import axios, {
   AxiosError,
+  AxiosInstance,
   AxiosResponse,
   InternalAxiosRequestConfig,
 } from "axios";
-import { getClientConfig } from "./clientConfig.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  getClientConfig,
+  getClientSettings,
+  type ClientSettings,
+} from "./clientConfig.js";
 import { createLogger } from "./logger.js";
 
 // Extend the config interface to include metadata
 interface ExtendedAxiosRequestConfig extends InternalAxiosRequestConfig {
   metadata?: {
     startTime: number;
+    retryCount?: number;
   };
 }
 
+// A Dokploy instance and the API key used to act on it
+export interface DokployConnection {
+  dokployUrl: string;
+  authToken: string;
+  client: AxiosInstance;
+}
+
 // Create logger instance for axios client
 const logger = createLogger("AxiosClient");
 
-// Get configuration from existing client config
-const config = getClientConfig();
+// Gateway errors that reverse proxies return while Dokploy is unreachable
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+// Upper bound for a single wait, including server-sent Retry-After values
+const MAX_RETRY_DELAY_MS = 30 * 1000;
 
 // Default headers for MCP server context
 const DEFAULT_HEADERS = {
   "Content-Type": "application/json",
   Accept: "application/json",
-  "x-api-key": config.authToken, // Use the same auth mechanism as httpClient
 } as const;
 
-// Create axios instance with configuration from clientConfig
-const apiClient = axios.create({
-  baseURL: config.dokployUrl,
-  timeout: config.timeout,
-  headers: DEFAULT_HEADERS,
-});
+/**
+ * Creates an axios instance for one Dokploy instance and API key, with the
+ * shared timing and error logging interceptors
+ */
+export function createDokployConnection(
+  dokployUrl: string,
+  authToken: string
+): DokployConnection {
+  const settings = getClientSettings();
+  const client = axios.create({
+    baseURL: dokployUrl,
+    timeout: settings.timeout,
+    headers: { ...DEFAULT_HEADERS, "x-api-key": authToken },
+  });
+  attachInterceptors(client, settings);
 
-// Request interceptor - Add request timing and logging
-apiClient.interceptors.request.use(
-  (config: InternalAxiosRequestConfig) => {
-    // Add request timestamp for performance monitoring
-    (config as ExtendedAxiosRequestConfig).metadata = { startTime: Date.now() };
+  return { dokployUrl, authToken, client };
+}
 
-    logger.debug("Making API request", {
-      method: config.method?.toUpperCase(),
-      url: config.url,
-      baseURL: config.baseURL,
-      hasData: !!config.data,
-    });
+// Connection built from DOKPLOY_URL and DOKPLOY_API_KEY, created on first use
+let defaultConnection: DokployConnection | null = null;
 
-    return config;
-  },
-  (error: AxiosError) => {
-    logger.error("Request interceptor error", { error: error.message });
-    return Promise.reject(error);
+function getDefaultConnection(): DokployConnection {
+  if (!defaultConnection) {
+    const config = getClientConfig();
+    defaultConnection = createDokployConnection(
+      config.dokployUrl,
+      config.authToken
+    );
   }
-);
-
-// Response interceptor - Handle responses and errors with proper logging
-apiClient.interceptors.response.use(
-  (response: AxiosResponse) => {
-    // Log response time for performance monitoring
-    const metadata = (response.config as ExtendedAxiosRequestConfig).metadata;
-    const startTime = metadata?.startTime;
-
-    if (startTime) {
-      const duration = Date.now() - startTime;
-      logger.info("API request completed", {
-        method: response.config.method?.toUpperCase(),
-        url: response.config.url,
-        status: response.status,
-        duration: `${duration}ms`,
+  return defaultConnection;
+}
+
+// Connection of the HTTP session whose request is being handled
+const connectionStorage = new AsyncLocalStorage<DokployConnection>();
+
+/**
+ * Runs fn with apiClient bound to the given connection, including any
+ * async work it starts
+ */
+export function runWithDokployConnection<T>(
+  connection: DokployConnection,
+  fn: () => T
+): T {
+  return connectionStorage.run(connection, fn);
+}
+
+/**
+ * Gets the connection for the current request: the session's own
+ * credentials in multi-tenant HTTP mode, otherwise the server default
+ */
+export function getDokployConnection(): DokployConnection {
+  return connectionStorage.getStore() ?? getDefaultConnection();
+}
+
+// Requests made by the tool call being handled, for the audit log
+const requestLogStorage = new AsyncLocalStorage<string[]>();
+
+/**
+ * Runs fn and appends every API request it makes to requests, as
+ * "METHOD /endpoint", retries included
+ */
+export function runWithRequestLog<T>(requests: string[], fn: () => T): T {
+  return requestLogStorage.run(requests, fn);
+}
+
+// Every property access is forwarded to the current connection's client,
+// so tools keep importing a single apiClient
+const apiClient = new Proxy({} as AxiosInstance, {
+  get(_target, property) {
+    const { client } = getDokployConnection();
+    const value = Reflect.get(client, property);
+    return typeof value === "function" ? value.bind(client) : value;
+  },
+});
+
+function attachInterceptors(
+  client: AxiosInstance,
+  settings: ClientSettings
+): void {
+  // Request interceptor - Add request timing and logging
+  client.interceptors.request.use(
+    (config: InternalAxiosRequestConfig) => {
+      // Add request timestamp for performance monitoring
+      // Keep the retry count when a failed request is sent again
+      const extendedConfig = config as ExtendedAxiosRequestConfig;
+      extendedConfig.metadata = {
+        ...extendedConfig.metadata,
+        startTime: Date.now(),
+      };
+
+      requestLogStorage
+        .getStore()
+        ?.push(`${config.method?.toUpperCase() ?? "GET"} ${config.url ?? ""}`);
+
+      logger.debug("Making API request", {
+        method: config.method?.toUpperCase(),
+        url: config.url,
+        baseURL: config.baseURL,
+        hasData: !!config.data,
       });
+
+      return config;
+    },
+    (error: AxiosError) => {
+      logger.error("Request interceptor error", { error: error.message });
+      return Promise.reject(error);
     }
+  );
 
-    return response;
-  },
-  (error: AxiosError) => {
-    const { response, request, config } = error;
-
-    // Handle different error scenarios with proper logging
-    if (response) {
-      // Server responded with error status
-      handleServerError(response);
-    } else if (request) {
-      // Request was made but no response received
-      handleNetworkError(request, config);
-    } else {
-      // Something else happened
-      handleUnknownError(error);
+  // Response interceptor - Handle responses and errors with proper logging
+  client.interceptors.response.use(
+    (response: AxiosResponse) => {
+      // Log response time for performance monitoring
+      const metadata = (response.config as ExtendedAxiosRequestConfig).metadata;
+      const startTime = metadata?.startTime;
+
+      if (startTime) {
+        const duration = Date.now() - startTime;
+        logger.info("API request completed", {
+          method: response.config.method?.toUpperCase(),
+          url: response.config.url,
+          status: response.status,
+          duration: `${duration}ms`,
+        });
+      }
+
+      return response;
+    },
+    async (error: AxiosError) => {
+      const { response, request, config } = error;
+
+      const delay = getRetryDelay(error, settings);
+      if (config && delay !== null) {
+        const extendedConfig = config as ExtendedAxiosRequestConfig;
+        const attempt = (extendedConfig.metadata?.retryCount ?? 0) + 1;
+        extendedConfig.metadata = {
+          startTime: Date.now(),
+          ...extendedConfig.metadata,
+          retryCount: attempt,
+        };
+
+        logger.warn("Retrying API request", {
+          attempt: `${attempt}/${settings.retryAttempts}`,
+          method: config.method?.toUpperCase(),
+          url: config.url,
+          reason: response ? `HTTP ${response.status}` : error.code,
+          delay: `${delay}ms`,
+        });
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return client.request(config);
+      }
+
+      // Handle different error scenarios with proper logging
+      if (response) {
+        // Server responded with error status
+        handleServerError(response);
+      } else if (request) {
+        // Request was made but no response received
+        handleNetworkError(request, config);
+      } else {
+        // Something else happened
+        handleUnknownError(error);
+      }
+
+      return Promise.reject(error);
     }
+  );
+}
+
+// Helper Functions
+
+/**
+ * Decides whether a failed request is retried and how long to wait first.
+ * Only GETs are retried, after network errors or 502/503/504 responses,
+ * since repeating a mutation such as a deploy could run it twice. Waits
+ * follow Retry-After when present, otherwise exponential backoff with
+ * jitter. Returns null when the request should fail now.
+ */
+function getRetryDelay(
+  error: AxiosError,
+  settings: ClientSettings
+): number | null {
+  const config = error.config as ExtendedAxiosRequestConfig | undefined;
+  const retryCount = config?.metadata?.retryCount ?? 0;
 
-    return Promise.reject(error);
+  if (
+    !config ||
+    config.method?.toLowerCase() !== "get" ||
+    axios.isCancel(error) ||
+    // Written so that an unparsable DOKPLOY_RETRY_ATTEMPTS disables retries
+    !(retryCount < settings.retryAttempts)
+  ) {
+    return null;
   }
-);
 
-// Helper Functions
+  if (error.response) {
+    if (!RETRYABLE_STATUSES.has(error.response.status)) {
+      return null;
+    }
+
+    const retryAfter = parseRetryAfter(error.response.headers["retry-after"]);
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, MAX_RETRY_DELAY_MS);
+    }
+  } else if (!error.request) {
+    // The request was never sent, so there is nothing to retry
+    return null;
+  }
+
+  const backoff = settings.retryDelay * 2 ** retryCount;
+  return Math.round(
+    Math.min(backoff, MAX_RETRY_DELAY_MS) * (0.5 + Math.random() * 0.5)
+  );
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
 
 function handleServerError(response: AxiosResponse): void {
   const { status, data, config } = response;
@@ -153,16 +333,16 @@ function handleUnknownError(error: AxiosError): void {
 // Utility function to update auth token (for MCP context)
 export function setAuthToken(token: string): void {
   // Update default headers for future requests
-  apiClient.defaults.headers.common["x-api-key"] = token;
+  getDefaultConnection().client.defaults.headers.common["x-api-key"] = token;
   logger.info("Auth token updated for API client");
 }
 
 // Utility function to clear auth token
 export function clearAuthToken(): void {
   // Remove authorization header
-  delete apiClient.defaults.headers.common["x-api-key"];
+  delete getDefaultConnection().client.defaults.headers.common["x-api-key"];
   logger.info("Auth token cleared from API client");
 }
 
-// Export the configured axios instance
+// Export the session-aware axios instance
 export default apiClient;
@@ -0,0 +1,320 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import {
+  appendFile,
+  mkdir,
+  readdir,
+  rename,
+  stat,
+  unlink,
+} from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { createInterface } from "node:readline";
+import type { ToolExtra } from "../mcp/tools/toolFactory.js";
+import { getDokployConnection, runWithRequestLog } from "./apiClient.js";
+import { createLogger } from "./logger.js";
+import { redactSecrets } from "./redaction.js";
+import type { FormattedResponse } from "./responseFormatter.js";
+
+const logger = createLogger("Audit");
+
+export interface AuditEntry {
+  timestamp: string;
+  sessionId: string | null;
+  // Authenticated client in HTTP mode
+  identity: string | null;
+  dokployHost: string | null;
+  // Fingerprint of the Dokploy API key the call used, never the key itself
+  credential: string | null;
+  tool: string;
+  action: string | null;
+  params: unknown;
+  dryRun?: boolean;
+  status: "success" | "error";
+  error?: string;
+  // Dokploy API calls made by the tool, e.g. "POST /application.update"
+  endpoints: string[];
+  durationMs: number;
+}
+
+// Who may read an entry: the same client, with the same Dokploy API key on
+// the same Dokploy instance
+export interface AuditScope {
+  dokployHost: string | null;
+  credential: string | null;
+  identity: string | null;
+}
+
+export interface AuditQuery extends AuditScope {
+  tool?: string | undefined;
+  action?: string | undefined;
+  sessionId?: string | undefined;
+  status?: "success" | "error" | undefined;
+  since?: string | undefined;
+  until?: string | undefined;
+  search?: string | undefined;
+  limit: number;
+}
+
+function parsePositiveNumber(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Append-only JSONL file of tool calls. The active file is rotated once it
+ * would grow past maxBytes, and rotated files are deleted after
+ * retentionDays. Writes are queued, so entries keep their order.
+ */
+export class AuditLog {
+  private size: number | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    private readonly maxBytes: number,
+    private readonly retentionDays: number
+  ) {}
+
+  append(entry: AuditEntry): void {
+    const line = `${JSON.stringify(entry)}\n`;
+    this.queue = this.queue
+      .then(() => this.write(line))
+      .catch((error) => {
+        logger.error("Failed to write audit log entry", {
+          path: this.path,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  /**
+   * Returns the newest entries matching the query within its scope, newest
+   * first. Files are streamed, keeping at most limit entries in memory.
+   */
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.queue;
+
+    const since = query.since ? Date.parse(query.since) : -Infinity;
+    const until = query.until ? Date.parse(query.until) : Infinity;
+    const search = query.search?.toLowerCase();
+    const matches: AuditEntry[] = [];
+
+    const isMatch = (line: string): AuditEntry | null => {
+      if (search && !line.toLowerCase().includes(search)) {
+        return null;
+      }
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        return null;
+      }
+
+      const time = Date.parse(entry.timestamp);
+      if (
+        time < since ||
+        time > until ||
+        entry.dokployHost !== query.dokployHost ||
+        entry.credential !== query.credential ||
+        entry.identity !== query.identity ||
+        (query.tool && entry.tool !== query.tool) ||
+        (query.action && entry.action !== query.action) ||
+        (query.sessionId && entry.sessionId !== query.sessionId) ||
+        (query.status && entry.status !== query.status)
+      ) {
+        return null;
+      }
+      return entry;
+    };
+
+    // Files go from newest to oldest, but each file is oldest first, so
+    // only the last matches of a file are kept
+    for (const file of [this.path, ...(await this.rotatedFiles())]) {
+      const remaining = query.limit - matches.length;
+      const newest: AuditEntry[] = [];
+
+      const stream = createReadStream(file, { encoding: "utf8" });
+      const lines = createInterface({ input: stream, crlfDelay: Infinity });
+      try {
+        for await (const line of lines) {
+          const entry = line ? isMatch(line) : null;
+          if (entry) {
+            newest.push(entry);
+            if (newest.length > remaining) {
+              newest.shift();
+            }
+          }
+        }
+      } catch {
+        // The file was rotated away or pruned while it was being read
+      } finally {
+        lines.close();
+        stream.destroy();
+      }
+
+      matches.push(...newest.reverse());
+      if (matches.length >= query.limit) {
+        break;
+      }
+    }
+
+    return matches;
+  }
+
+  private async write(line: string): Promise<void> {
+    if (this.size === null) {
+      await mkdir(dirname(this.path), { recursive: true });
+      this.size = (await stat(this.path).catch(() => null))?.size ?? 0;
+      await this.prune();
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      await this.rotate();
+    }
+
+    await appendFile(this.path, line, { mode: 0o600 });
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    // A counter keeps two rotations in the same millisecond from overwriting
+    // each other, and sorts after the first one's name
+    let target = `${this.path}.${stamp}`;
+    for (let count = 1; await stat(target).catch(() => null); count++) {
+      target = `${this.path}.${stamp}-${String(count).padStart(3, "0")}`;
+    }
+    await rename(this.path, target);
+    this.size = 0;
+    await this.prune();
+  }
+
+  // Rotated files, newest first; their timestamps sort lexicographically
+  private async rotatedFiles(): Promise<string[]> {
+    const prefix = `${basename(this.path)}.`;
+    const names = await readdir(dirname(this.path)).catch(() => []);
+    return names
+      .filter((name) => name.startsWith(prefix))
+      .sort()
+      .reverse()
+      .map((name) => join(dirname(this.path), name));
+  }
+
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+    for (const file of await this.rotatedFiles()) {
+      const { mtimeMs } = await stat(file);
+      if (mtimeMs < cutoff) {
+        await unlink(file);
+        logger.info("Deleted expired audit log", { file });
+      }
+    }
+  }
+}
+
+let auditLog: AuditLog | null | undefined;
+
+/**
+ * Gets the audit log configured by DOKPLOY_AUDIT_LOG, or null when auditing
+ * is disabled
+ */
+export function getAuditLog(): AuditLog | null {
+  if (auditLog === undefined) {
+    const path = process.env.DOKPLOY_AUDIT_LOG;
+    auditLog = path
+      ? new AuditLog(
+          path,
+          parsePositiveNumber(process.env.DOKPLOY_AUDIT_MAX_SIZE_MB, 10) *
+            1024 *
+            1024,
+          parsePositiveNumber(process.env.DOKPLOY_AUDIT_RETENTION_DAYS, 30)
+        )
+      : null;
+  }
+  return auditLog;
+}
+
+/**
+ * Scope of the current call: the Dokploy host, a fingerprint of its API key
+ * and the authenticated client. Audit queries only return entries of the
+ * caller's own scope, so sessions with other credentials or identities
+ * cannot read each other's history. Must run inside the call's connection.
+ */
+export function getAuditScope(extra: ToolExtra | undefined): AuditScope {
+  let dokployHost: string | null = null;
+  let credential: string | null = null;
+  try {
+    const connection = getDokployConnection();
+    dokployHost = new URL(connection.dokployUrl).host;
+    credential = createHash("sha256")
+      .update(connection.authToken)
+      .digest("hex")
+      .slice(0, 16);
+  } catch {
+    // No Dokploy connection is configured
+  }
+  return {
+    dokployHost,
+    credential,
+    identity: extra?.authInfo?.clientId ?? null,
+  };
+}
+
+// Reads the error title out of a ResponseFormatter.error response
+function getErrorTitle(result: FormattedResponse): string | undefined {
+  try {
+    const body = JSON.parse(result.content[0]?.text ?? "");
+    return typeof body?.error === "string" ? body.error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Runs a tool call and records it in the audit log, if one is configured.
+ * Must run inside the call's Dokploy connection.
+ */
+export async function auditToolCall(
+  toolName: string,
+  input: Record<string, unknown> | undefined,
+  extra: ToolExtra | undefined,
+  fn: () => Promise<FormattedResponse>
+): Promise<FormattedResponse> {
+  const log = getAuditLog();
+  if (!log) {
+    return fn();
+  }
+
+  const endpoints: string[] = [];
+  const startedAt = Date.now();
+  const record = (status: AuditEntry["status"], error?: string) =>
+    log.append({
+      timestamp: new Date(startedAt).toISOString(),
+      sessionId: extra?.sessionId ?? null,
+      ...getAuditScope(extra),
+      tool: toolName,
+      action: typeof input?.action === "string" ? input.action : null,
+      params: redactSecrets(input?.params ?? {}),
+      ...(input?.dryRun === true && { dryRun: true }),
+      status,
+      ...(error && { error }),
+      endpoints,
+      durationMs: Date.now() - startedAt,
+    });
+
+  try {
+    const result = await runWithRequestLog(endpoints, fn);
+    if (result.isError) {
+      record("error", getErrorTitle(result));
+    } else {
+      record("success");
+    }
+    return result;
+  } catch (error) {
+    record("error", error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
@@ -1,11 +1,15 @@
-interface Config {
-  dokployUrl: string;
-  authToken: string;
+// Request settings shared by every Dokploy client, whatever its credentials
+export interface ClientSettings {
   timeout: number;
   retryAttempts: number;
   retryDelay: number;
 }
 
+interface Config extends ClientSettings {
+  dokployUrl: string;
+  authToken: string;
+}
+
 class ConfigManager {
   private static instance: ConfigManager;
   private config: Config | null = null;
@@ -40,13 +44,24 @@ class ConfigManager {
     return {
       dokployUrl,
       authToken,
-      timeout: parseInt(process.env.DOKPLOY_TIMEOUT || "30000", 10),
-      retryAttempts: parseInt(process.env.DOKPLOY_RETRY_ATTEMPTS || "3", 10),
-      retryDelay: parseInt(process.env.DOKPLOY_RETRY_DELAY || "1000", 10),
+      ...getClientSettings(),
     };
   }
 }
 
+export function getClientSettings(): ClientSettings {
+  return {
+    timeout: parseInt(process.env.DOKPLOY_TIMEOUT || "30000", 10),
+    retryAttempts: parseInt(process.env.DOKPLOY_RETRY_ATTEMPTS || "3", 10),
+    retryDelay: parseInt(process.env.DOKPLOY_RETRY_DELAY || "1000", 10),
+  };
+}
+
+// True when DOKPLOY_URL and DOKPLOY_API_KEY provide a server-wide default
+export function hasDefaultCredentials(): boolean {
+  return !!process.env.DOKPLOY_URL && !!process.env.DOKPLOY_API_KEY;
+}
+
 export function getClientConfig(): Config {
   return ConfigManager.getInstance().getConfig();
 }
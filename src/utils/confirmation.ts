@@ -0,0 +1,372 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ElicitResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { randomBytes } from "node:crypto";
+import { z, type ZodRawShape } from "zod";
+import type { ToolDefinition, ToolExtra } from "../mcp/tools/toolFactory.js";
+import {
+  classifyDokployError,
+  DOKPLOY_ERROR_SUMMARIES,
+} from "./dokployErrors.js";
+import {
+  captureRequest,
+  fetchCurrentState,
+  type DryRunRequest,
+  type DryRunTarget,
+} from "./dryRun.js";
+import { createLogger } from "./logger.js";
+import { enforceProjectLock } from "./projectLockEnforcer.js";
+import {
+  ResponseFormatter,
+  type FormattedResponse,
+} from "./responseFormatter.js";
+
+const logger = createLogger("Confirmation");
+
+// Deletions, plus database rebuilds, which recreate the container and
+// its volume
+const CONFIRMABLE_ACTION_PATTERN = /^(delete|remove|rebuild)$|(Delete|Remove)$/;
+
+// Environment fields of project.one that list services
+const SERVICE_KEYS = [
+  "applications",
+  "compose",
+  "postgres",
+  "mysql",
+  "mariadb",
+  "mongo",
+  "redis",
+] as const;
+
+const DATABASE_KEYS = new Set<string>([
+  "postgres",
+  "mysql",
+  "mariadb",
+  "mongo",
+  "redis",
+]);
+
+// Added to the input schema of tools with confirmable actions
+export const confirmationTokenSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Token returned by the first call of a destructive action. Repeat the call with the same action and params plus this token to run it."
+  );
+
+export interface DestructionSummary {
+  action: string;
+  type: string;
+  id?: string;
+  name?: string;
+  domains?: string[];
+  databases?: string[];
+  services?: { type: string; name: string; environment?: string }[];
+}
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+export function isConfirmationRequired(): boolean {
+  return process.env.DOKPLOY_REQUIRE_CONFIRMATION === "true";
+}
+
+function getConfirmationTtlMs(): number {
+  const seconds = parseInt(
+    process.env.DOKPLOY_CONFIRMATION_TTL_SECONDS || "",
+    10
+  );
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 120) * 1000;
+}
+
+/**
+ * Picks the actions that need confirmation out of a consolidated tool's
+ * action map
+ */
+export function getConfirmableActions(actions: Record<string, unknown>) {
+  return Object.keys(actions).filter((action) =>
+    CONFIRMABLE_ACTION_PATTERN.test(action)
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+// Serializes with sorted keys, so a token matches the same params in any order
+function fingerprint(value: unknown): string {
+  return JSON.stringify(value, (_key, field: unknown) =>
+    isRecord(field)
+      ? Object.fromEntries(
+          Object.keys(field)
+            .sort()
+            .map((key) => [key, field[key]])
+        )
+      : field
+  );
+}
+
+/**
+ * Describes what an action would destroy: the target itself, its domains
+ * and databases, and for projects every service they contain
+ */
+function summarizeTarget(
+  action: string,
+  request: DryRunRequest,
+  target: DryRunTarget | null
+): DestructionSummary {
+  if (!target) {
+    return { action, type: request.endpoint };
+  }
+
+  const { state } = target;
+  const services = records(state.environments).flatMap((environment) =>
+    SERVICE_KEYS.flatMap((key) =>
+      records(environment[key]).map((item) => ({ key, item, environment }))
+    )
+  );
+  const domains = [state, ...services.map(({ item }) => item)].flatMap((item) =>
+    records(item.domains).flatMap((domain) => text(domain.host) ?? [])
+  );
+  const databases = [
+    ...(text(state.databaseName) ? [state.databaseName as string] : []),
+    ...services
+      .filter(({ key }) => DATABASE_KEYS.has(key))
+      .map(({ key, item }) => `${key} "${String(item.name)}"`),
+  ];
+
+  return {
+    action,
+    type: target.entity,
+    id: target.id,
+    name: text(state.name) ?? text(state.host) ?? target.id,
+    ...(domains.length > 0 && { domains }),
+    ...(databases.length > 0 && { databases }),
+    ...(services.length > 0 && {
+      services: services.map(({ key, item, environment }) => ({
+        type: key,
+        name: String(item.name),
+        ...(text(environment.name) && {
+          environment: environment.name as string,
+        }),
+      })),
+    }),
+  };
+}
+
+function describeSummary(summary: DestructionSummary): string {
+  const lines = [
+    summary.name
+      ? `"${summary.action}" will destroy ${summary.type} "${summary.name}" (${summary.id}).`
+      : `"${summary.action}" will send ${summary.type}.`,
+  ];
+  if (summary.services) {
+    lines.push(
+      `Services: ${summary.services
+        .map(
+          (service) =>
+            `${service.type} "${service.name}"${service.environment ? ` in ${service.environment}` : ""}`
+        )
+        .join(", ")}`
+    );
+  }
+  if (summary.databases) {
+    lines.push(`Databases: ${summary.databases.join(", ")}`);
+  }
+  if (summary.domains) {
+    lines.push(`Domains: ${summary.domains.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Holds destructive actions back until they are confirmed, for
+ * DOKPLOY_REQUIRE_CONFIRMATION. The first call gets a summary of what would
+ * be destroyed and a single-use token bound to the tool, action and params;
+ * only a repeat call with that token runs. Clients that support elicitation
+ * are asked to confirm directly instead. One gate exists per session, so
+ * tokens cannot be used from another session.
+ */
+export class ConfirmationGate {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(
+    private readonly server: Server,
+    private readonly ttlMs = getConfirmationTtlMs()
+  ) {}
+
+  /**
+   * Returns null when the call may run, otherwise the response to send
+   * instead of running it
+   */
+  async check(
+    tool: Pick<ToolDefinition<ZodRawShape>, "name" | "actions">,
+    input: Record<string, unknown>,
+    extra?: ToolExtra
+  ): Promise<FormattedResponse | null> {
+    const action = String(input.action);
+    const actionTool = tool.actions?.[action];
+    if (
+      !actionTool ||
+      input.dryRun ||
+      !CONFIRMABLE_ACTION_PATTERN.test(action)
+    ) {
+      return null;
+    }
+
+    const params = isRecord(input.params) ? input.params : {};
+    // Nothing about a target outside the locked project may be revealed
+    const lockError = await enforceProjectLock(params);
+    if (lockError) {
+      return lockError;
+    }
+
+    const key = fingerprint([tool.name, action, params]);
+    if (input.confirmationToken !== undefined) {
+      return this.redeem(String(input.confirmationToken), key, tool.name);
+    }
+
+    let summary: DestructionSummary;
+    try {
+      const captured = await captureRequest(actionTool, params, extra);
+      if ("result" in captured) {
+        // Params failed validation, so there is nothing to confirm
+        return captured.result;
+      }
+      const target = await fetchCurrentState(captured.request);
+      summary = summarizeTarget(action, captured.request, target);
+    } catch (error) {
+      const dokployError = classifyDokployError(error);
+      if (!dokployError) {
+        throw error;
+      }
+      return ResponseFormatter.error(
+        `${DOKPLOY_ERROR_SUMMARIES[dokployError.code]} for tool: ${tool.name}`,
+        dokployError.message,
+        dokployError
+      );
+    }
+
+    if (extra && this.server.getClientCapabilities()?.elicitation) {
+      const confirmed = await this.elicit(summary, extra);
+      if (confirmed === true) {
+        logger.info("Destructive action confirmed by the user", {
+          tool: tool.name,
+          action,
+          target: summary.id,
+        });
+        return null;
+      }
+      if (confirmed === false) {
+        return ResponseFormatter.error(
+          "Cancelled by user",
+          `The user did not confirm "${action}" on ${summary.type} "${summary.name ?? summary.type}". Nothing was changed.`,
+          summary
+        );
+      }
+    }
+
+    return this.issue(key, tool.name, summary);
+  }
+
+  private issue(
+    key: string,
+    toolName: string,
+    summary: DestructionSummary
+  ): FormattedResponse {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+
+    const token = randomBytes(9).toString("base64url");
+    const expiresAt = now + this.ttlMs;
+    this.pending.set(token, { fingerprint: key, expiresAt });
+    logger.info("Confirmation token issued", {
+      tool: toolName,
+      action: summary.action,
+      target: summary.id,
+    });
+
+    return ResponseFormatter.error(
+      "Confirmation required",
+      `${describeSummary(summary)}\nNothing was changed. Show this to the user, and if they agree, call ${toolName} again with the same action and params and confirmationToken "${token}" within ${Math.round(this.ttlMs / 1000)} seconds.`,
+      {
+        confirmationToken: token,
+        expiresAt: new Date(expiresAt).toISOString(),
+        summary,
+      }
+    );
+  }
+
+  private redeem(
+    token: string,
+    key: string,
+    toolName: string
+  ): FormattedResponse | null {
+    const pending = this.pending.get(token);
+    // Tokens are single-use, whether or not they match
+    this.pending.delete(token);
+
+    if (pending?.fingerprint === key && pending.expiresAt > Date.now()) {
+      logger.info("Confirmation token redeemed", { tool: toolName });
+      return null;
+    }
+
+    logger.warn("Rejected confirmation token", { tool: toolName });
+    return ResponseFormatter.error(
+      "Invalid confirmation token",
+      "The token is unknown, expired, already used or was issued for a different action or params. Call again without confirmationToken to get a new one."
+    );
+  }
+
+  /**
+   * Asks the user through MCP elicitation. Returns null when the client
+   * could not answer, so the caller falls back to a token.
+   */
+  private async elicit(
+    summary: DestructionSummary,
+    extra: ToolExtra
+  ): Promise<boolean | null> {
+    try {
+      const result = await extra.sendRequest(
+        {
+          method: "elicitation/create",
+          params: {
+            message: `${describeSummary(summary)}\nThis cannot be undone.`,
+            requestedSchema: {
+              type: "object",
+              properties: {
+                confirm: {
+                  type: "boolean",
+                  title: "Confirm",
+                  description: `Run "${summary.action}"`,
+                },
+              },
+              required: ["confirm"],
+            },
+          },
+        },
+        ElicitResultSchema,
+        { timeout: this.ttlMs }
+      );
+      return result.action === "accept" && result.content?.confirm === true;
+    } catch (error) {
+      logger.warn("Elicitation failed, falling back to a confirmation token", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import { z } from "zod";
+import type { ToolExtra } from "../mcp/tools/toolFactory.js";
+import type { DokployDeployment } from "../types/dokploy.js";
+import apiClient from "./apiClient.js";
+import {
+  DeploymentTarget,
+  fetchDeployments,
+  readDeploymentLog,
+  selectLogLines,
+  summarizeDeployment,
+} from "./deployments.js";
+import { createLogger } from "./logger.js";
+import { FormattedResponse, ResponseFormatter } from "./responseFormatter.js";
+
+const logger = createLogger("DeploymentWait");
+
+const POLL_INTERVAL_MS = 3000;
+const FINISHED_STATUSES = ["done", "error"];
+
+// Schema fields shared by every action that supports wait mode. Built per
+// tool so consolidated schemas don't collapse repeated fields into $refs.
+function createServiceWaitShape() {
+  return {
+    wait: z
+      .boolean()
+      .optional()
+      .describe(
+        "Block until the service reaches done or error instead of returning immediately."
+      ),
+    waitTimeoutSeconds: z
+      .number()
+      .int()
+      .positive()
+      .max(3600)
+      .optional()
+      .default(600)
+      .describe("Maximum time to wait when wait is true (default 600)."),
+  };
+}
+
+export function createDeploymentWaitShape() {
+  return {
+    ...createServiceWaitShape(),
+    logLines: z
+      .number()
+      .int()
+      .min(0)
+      .max(1000)
+      .optional()
+      .default(50)
+      .describe(
+        "Number of trailing deployment log lines to return when wait is true (default 50)."
+      ),
+  };
+}
+
+export interface WaitOptions {
+  timeoutSeconds: number;
+  extra?: ToolExtra | undefined;
+}
+
+export interface DeploymentWaitOptions extends WaitOptions {
+  logLines: number;
+}
+
+/**
+ * Sends MCP progress notifications when the client asked for them
+ * by attaching a progressToken to the tool call
+ */
+function createProgressReporter(extra: ToolExtra | undefined) {
+  const progressToken = extra?._meta?.progressToken;
+  let progress = 0;
+
+  return async (message: string) => {
+    if (!extra || progressToken === undefined) {
+      return;
+    }
+
+    progress += 1;
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, message },
+      });
+    } catch (error) {
+      logger.warn("Failed to send progress notification", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Wait cancelled by client"));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Wait cancelled by client"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function readLogTail(
+  logPath: string,
+  serverId: string | null | undefined,
+  logLines: number
+): Promise<string[]> {
+  if (logLines === 0) {
+    return [];
+  }
+
+  try {
+    const lines = await readDeploymentLog(logPath, { serverId });
+    return selectLogLines(lines, { tail: logLines }).lines;
+  } catch (error) {
+    return [
+      `[log unavailable: ${error instanceof Error ? error.message : "Unknown error"}]`,
+    ];
+  }
+}
+
+/**
+ * The result of a deployment that reached done or error, with the tail of
+ * its log
+ */
+async function finishDeployment(
+  label: string,
+  deployment: DokployDeployment,
+  startedAt: number,
+  logLines: number
+): Promise<FormattedResponse> {
+  const result = {
+    status: deployment.status,
+    elapsedSeconds: Math.round((Date.now() - startedAt) / 1000),
+    deployment: summarizeDeployment(deployment),
+    logs: await readLogTail(deployment.logPath, deployment.serverId, logLines),
+  };
+
+  if (deployment.status === "error") {
+    return ResponseFormatter.error(
+      `${label} failed`,
+      deployment.errorMessage ?? "Deployment finished with status error",
+      result
+    );
+  }
+
+  return ResponseFormatter.success(`${label} finished successfully`, result);
+}
+
+/**
+ * Triggers a deployment and polls until the deployment it created reaches
+ * done or error. Deployments that existed before the trigger are ignored,
+ * so queued deployments are picked up once Dokploy records them.
+ */
+export async function deployAndWait(
+  label: string,
+  target: DeploymentTarget,
+  options: DeploymentWaitOptions,
+  trigger: () => Promise<unknown>
+): Promise<FormattedResponse> {
+  const knownIds = new Set(
+    (await fetchDeployments(target)).map((item) => item.deploymentId)
+  );
+
+  await trigger();
+
+  const report = createProgressReporter(options.extra);
+  const startedAt = Date.now();
+  const deadline = startedAt + options.timeoutSeconds * 1000;
+  let latest: DokployDeployment | undefined;
+
+  while (Date.now() < deadline) {
+    latest = (await fetchDeployments(target)).find(
+      (item) => !knownIds.has(item.deploymentId)
+    );
+
+    if (latest && FINISHED_STATUSES.includes(latest.status)) {
+      return finishDeployment(label, latest, startedAt, options.logLines);
+    }
+
+    await report(
+      latest
+        ? `Deployment ${latest.deploymentId} is ${latest.status}`
+        : "Waiting for Dokploy to start the deployment"
+    );
+    await sleep(POLL_INTERVAL_MS, options.extra?.signal);
+  }
+
+  return ResponseFormatter.error(
+    `Timed out waiting for ${label}`,
+    `Deployment was still ${latest?.status ?? "queued"} after ${options.timeoutSeconds} seconds. Use dokploy_deployment to check on it later.`,
+    latest ? { deployment: summarizeDeployment(latest) } : undefined
+  );
+}
+
+// Deployment records embedded in a service's "*.one" response, for the
+// services whose response carries them
+function listServiceDeployments(service: unknown): DokployDeployment[] {
+  const deployments = (service as { deployments?: unknown } | undefined)
+    ?.deployments;
+  return Array.isArray(deployments)
+    ? [...(deployments as DokployDeployment[])].sort(
+        (a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt)
+      )
+    : [];
+}
+
+/**
+ * Triggers an action and polls the service's "*.one" endpoint until it has
+ * finished. Used for actions that may not create a deployment record, such
+ * as database deploys and reloads.
+ *
+ * Dokploy runs these actions before the trigger's request returns, so a
+ * done or error status read afterwards is the action's result. A deployment
+ * record created by the action is followed instead, as in deployAndWait,
+ * when the service has them.
+ */
+export async function waitForServiceStatus(
+  label: string,
+  endpoint: string,
+  params: Record<string, string>,
+  options: DeploymentWaitOptions,
+  trigger: () => Promise<unknown>
+): Promise<FormattedResponse> {
+  const readService = async () =>
+    (await apiClient.get(endpoint, { params }))?.data;
+
+  const knownIds = new Set(
+    listServiceDeployments(await readService()).map((item) => item.deploymentId)
+  );
+
+  await trigger();
+
+  const report = createProgressReporter(options.extra);
+  const startedAt = Date.now();
+  const deadline = startedAt + options.timeoutSeconds * 1000;
+  let status: string | undefined;
+
+  while (Date.now() < deadline) {
+    const service = await readService();
+    status = service?.applicationStatus;
+    const deployment = listServiceDeployments(service).find(
+      (item) => !knownIds.has(item.deploymentId)
+    );
+
+    if (deployment) {
+      if (FINISHED_STATUSES.includes(deployment.status)) {
+        return finishDeployment(label, deployment, startedAt, options.logLines);
+      }
+    } else if (status && FINISHED_STATUSES.includes(status)) {
+      const result = {
+        status,
+        elapsedSeconds: Math.round((Date.now() - startedAt) / 1000),
+      };
+
+      if (status === "error") {
+        return ResponseFormatter.error(
+          `${label} failed`,
+          "Service finished with status error",
+          result
+        );
+      }
+
+      return ResponseFormatter.success(
+        `${label} finished successfully`,
+        result
+      );
+    }
+
+    await report(
+      deployment
+        ? `Deployment ${deployment.deploymentId} is ${deployment.status}`
+        : `Service is ${status ?? "pending"}`
+    );
+    await sleep(POLL_INTERVAL_MS, options.extra?.signal);
+  }
+
+  return ResponseFormatter.error(
+    `Timed out waiting for ${label}`,
+    `Service was still ${status ?? "pending"} after ${options.timeoutSeconds} seconds`
+  );
+}
@@ -0,0 +1,163 @@
+import WebSocket from "ws";
+import type { DokployDeployment } from "../types/dokploy.js";
+import apiClient, { getDokployConnection } from "./apiClient.js";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("Deployments");
+
+export interface DeploymentTarget {
+  applicationId?: string | undefined;
+  composeId?: string | undefined;
+}
+
+export interface ReadDeploymentLogOptions {
+  serverId?: string | null | undefined;
+  // Stop reading once the stream has been quiet for this long
+  idleTimeoutMs?: number;
+  // Hard cap on how long a single read may take
+  maxWaitMs?: number;
+}
+
+export interface LogLineSelection {
+  tail?: number | undefined;
+  startLine?: number | undefined;
+  endLine?: number | undefined;
+}
+
+/**
+ * Lists deployments for an application or a compose service, newest first
+ */
+export async function fetchDeployments(
+  target: DeploymentTarget
+): Promise<DokployDeployment[]> {
+  const response = target.composeId
+    ? await apiClient.get("/deployment.allByCompose", {
+        params: { composeId: target.composeId },
+      })
+    : await apiClient.get("/deployment.all", {
+        params: { applicationId: target.applicationId },
+      });
+
+  const deployments = (response?.data ?? []) as DokployDeployment[];
+
+  return [...deployments].sort(
+    (a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt)
+  );
+}
+
+/**
+ * Strips a deployment down to the fields that matter for follow-up calls
+ */
+export function summarizeDeployment(deployment: DokployDeployment) {
+  return {
+    deploymentId: deployment.deploymentId,
+    title: deployment.title,
+    description: deployment.description,
+    status: deployment.status,
+    createdAt: deployment.createdAt,
+    startedAt: deployment.startedAt,
+    finishedAt: deployment.finishedAt,
+    errorMessage: deployment.errorMessage,
+  };
+}
+
+function buildLogStreamUrl(logPath: string, serverId?: string | null): string {
+  const { dokployUrl } = getDokployConnection();
+  const url = new URL(dokployUrl);
+
+  // DOKPLOY_URL points at the tRPC API (".../api"); the log stream lives
+  // next to it on the same host.
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  url.pathname = `${url.pathname.replace(/\/api\/?$/, "").replace(/\/$/, "")}/listen-deployment`;
+  url.search = "";
+  url.searchParams.set("logPath", logPath);
+  if (serverId) {
+    url.searchParams.set("serverId", serverId);
+  }
+
+  return url.toString();
+}
+
+/**
+ * Reads a deployment build log through Dokploy's log streaming socket.
+ * Dokploy only exposes logs as a live tail, so the socket is closed once it
+ * has been idle for a short while.
+ */
+export function readDeploymentLog(
+  logPath: string,
+  options: ReadDeploymentLogOptions = {}
+): Promise<string[]> {
+  const { serverId, idleTimeoutMs = 1500, maxWaitMs = 15000 } = options;
+  const { authToken } = getDokployConnection();
+  const url = buildLogStreamUrl(logPath, serverId);
+
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url, {
+      headers: { "x-api-key": authToken },
+    });
+    let buffer = "";
+    let settled = false;
+    let idleTimer: NodeJS.Timeout | undefined;
+
+    const finish = (error?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(idleTimer);
+      clearTimeout(maxTimer);
+      socket.terminate();
+
+      if (error) {
+        logger.error("Failed to read deployment log", {
+          logPath,
+          error: error.message,
+        });
+        reject(error);
+        return;
+      }
+
+      const lines = buffer.split(/\r?\n/);
+      if (lines[lines.length - 1] === "") {
+        lines.pop();
+      }
+      resolve(lines);
+    };
+
+    const armIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => finish(), idleTimeoutMs);
+    };
+
+    const maxTimer = setTimeout(() => finish(), maxWaitMs);
+
+    socket.on("open", armIdleTimer);
+    socket.on("message", (data) => {
+      buffer += data.toString();
+      armIdleTimer();
+    });
+    socket.on("close", () => finish());
+    socket.on("error", (error) => finish(error));
+  });
+}
+
+/**
+ * Applies tail or 1-based inclusive line-range selection to log lines
+ */
+export function selectLogLines(
+  lines: string[],
+  selection: LogLineSelection
+): { lines: string[]; firstLine: number } {
+  if (selection.startLine !== undefined || selection.endLine !== undefined) {
+    const start = Math.max(selection.startLine ?? 1, 1);
+    const end = Math.min(selection.endLine ?? lines.length, lines.length);
+    return { lines: lines.slice(start - 1, end), firstLine: start };
+  }
+
+  if (selection.tail !== undefined) {
+    const start = Math.max(lines.length - selection.tail, 0);
+    return { lines: lines.slice(start), firstLine: start + 1 };
+  }
+
+  return { lines, firstLine: 1 };
+}
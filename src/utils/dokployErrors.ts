@@ -0,0 +1,162 @@
+import { isAxiosError } from "axios";
+
+// Stable categories for failed Dokploy API calls, returned to agents as
+// "code" so they can react without parsing messages
+export type DokployErrorCode =
+  | "auth"
+  | "forbidden"
+  | "not_found"
+  | "validation"
+  | "conflict"
+  | "upstream_unavailable"
+  | "timeout"
+  | "server_error"
+  | "request_failed";
+
+export interface DokployFieldError {
+  field: string;
+  message: string;
+}
+
+export interface DokployError {
+  code: DokployErrorCode;
+  status?: number;
+  message: string;
+  fieldErrors?: DokployFieldError[];
+}
+
+// Short summaries used as the error title for each category
+export const DOKPLOY_ERROR_SUMMARIES: Record<DokployErrorCode, string> = {
+  auth: "Authentication failed",
+  forbidden: "Access forbidden",
+  not_found: "Resource not found",
+  validation: "Validation failed",
+  conflict: "Conflict with current state",
+  upstream_unavailable: "Dokploy is unavailable",
+  timeout: "Request timed out",
+  server_error: "Server error occurred",
+  request_failed: "Request failed",
+};
+
+// Axios codes for requests that ran out of time rather than failing to connect
+const TIMEOUT_CODES = new Set(["ECONNABORTED", "ETIMEDOUT"]);
+
+function codeForStatus(status: number): DokployErrorCode {
+  switch (status) {
+    case 401:
+      return "auth";
+    case 403:
+      return "forbidden";
+    case 404:
+      return "not_found";
+    // tRPC reports input (zod) errors as 400 BAD_REQUEST
+    case 400:
+    case 422:
+      return "validation";
+    case 409:
+      return "conflict";
+    case 408:
+      return "timeout";
+    case 502:
+    case 503:
+    case 504:
+      return "upstream_unavailable";
+    default:
+      return status >= 500 ? "server_error" : "request_failed";
+  }
+}
+
+// Reads a nested property of an untyped response body
+function pick(value: unknown, ...path: string[]): unknown {
+  return path.reduce<unknown>(
+    (current, key) =>
+      current !== null && typeof current === "object"
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value
+  );
+}
+
+/**
+ * Pulls Dokploy's own message out of an error body. Dokploy answers with
+ * tRPC-style bodies ({ message, code } or { error: { message } }), and
+ * proxies in front of it may answer with plain text.
+ */
+function extractMessage(data: unknown): string | undefined {
+  if (typeof data === "string") {
+    return data.trim() || undefined;
+  }
+
+  return [
+    pick(data, "message"),
+    pick(data, "error", "message"),
+    pick(data, "error"),
+  ].find((value): value is string => typeof value === "string");
+}
+
+/**
+ * Collects per-field messages from a validation error body: zod "issues"
+ * (trpc-openapi), "errors" lists or maps, and tRPC's zodError.fieldErrors
+ */
+function extractFieldErrors(data: unknown): DokployFieldError[] {
+  const issues = pick(data, "issues") ?? pick(data, "errors");
+  if (Array.isArray(issues)) {
+    return issues.map((issue) => {
+      const path = pick(issue, "path") ?? pick(issue, "field");
+      const message = pick(issue, "message");
+      return {
+        field: Array.isArray(path) ? path.join(".") : String(path ?? ""),
+        message: typeof message === "string" ? message : String(issue),
+      };
+    });
+  }
+
+  const fieldErrors =
+    pick(data, "error", "data", "zodError", "fieldErrors") ??
+    pick(data, "data", "zodError", "fieldErrors") ??
+    issues;
+  if (fieldErrors !== null && typeof fieldErrors === "object") {
+    return Object.entries(fieldErrors).flatMap(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages]).map((message) => ({
+        field,
+        message: String(message),
+      }))
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Maps a failed Dokploy API call to a DokployError. Returns null for
+ * errors that did not come from the API client.
+ */
+export function classifyDokployError(error: unknown): DokployError | null {
+  if (!isAxiosError(error)) {
+    return null;
+  }
+
+  const { response } = error;
+  if (!response) {
+    return {
+      code: TIMEOUT_CODES.has(error.code ?? "")
+        ? "timeout"
+        : "upstream_unavailable",
+      message: error.message,
+    };
+  }
+
+  const code = codeForStatus(response.status);
+  const fieldErrors =
+    code === "validation" ? extractFieldErrors(response.data) : [];
+
+  return {
+    code,
+    status: response.status,
+    message:
+      extractMessage(response.data) ||
+      response.statusText ||
+      `Dokploy responded with status ${response.status}`,
+    ...(fieldErrors.length > 0 && { fieldErrors }),
+  };
+}
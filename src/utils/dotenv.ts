@@ -0,0 +1,235 @@
+// One line of a dotenv blob, or several for a quoted multi-line value.
+// raw is kept so untouched lines are written back exactly as they were, and
+// comment holds an inline "# ..." after the value, kept when it is edited.
+export type EnvLine =
+  | {
+      kind: "variable";
+      key: string;
+      value: string;
+      comment: string;
+      raw: string;
+    }
+  | { kind: "other"; raw: string };
+
+export interface EnvChange {
+  key: string;
+  change: "added" | "changed" | "removed";
+}
+
+export const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+const VARIABLE_LINE_PATTERN =
+  /^(\s*(?:export\s+)?)([A-Za-z_][A-Za-z0-9_.-]*)\s*=(.*)$/;
+
+// What may follow a closing quote
+const TRAILING_COMMENT_PATTERN = /^\s*(#.*)?$/;
+
+// Starts an inline comment of an unquoted value; "#" inside a word is kept
+const INLINE_COMMENT_PATTERN = /(^|\s+)#.*$/;
+
+const QUOTES = new Set(['"', "'", "`"]);
+
+// Values that dotenv would cut at "#", trim or read as quoted
+const NEEDS_QUOTES_PATTERN = /[#"'`\\]|^\s|\s$/;
+
+// Position of the quote closing a value that opens with text[0], or -1.
+// Only double-quoted values have escapes.
+function findClosingQuote(text: string): number {
+  const quote = text[0];
+  for (let index = 1; index < text.length; index++) {
+    if (quote === '"' && text[index] === "\\") {
+      index++;
+    } else if (text[index] === quote) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function unescapeValue(inner: string, quote: string): string {
+  return quote === '"'
+    ? inner.replace(/\\([n"\\])/g, (_match, char: string) =>
+        char === "n" ? "\n" : char
+      )
+    : inner;
+}
+
+function formatValue(value: string): string {
+  if (!value.includes("\n") && !NEEDS_QUOTES_PATTERN.test(value)) {
+    return value;
+  }
+  if (!value.includes("\n") && !value.includes("'")) {
+    return `'${value}'`;
+  }
+  return `"${value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")}"`;
+}
+
+/**
+ * Parses the value after "=", which may continue on the following rows
+ * when it is quoted. Returns how many extra rows it used. A quote that is
+ * never closed, or is followed by more than a comment, is not a quoted
+ * value, so it never takes the rows after it.
+ */
+function parseValue(
+  rest: string,
+  following: string[]
+): { value: string; comment: string; extraRows: number } {
+  const text = rest.trimStart();
+  const quote = text[0] ?? "";
+
+  if (QUOTES.has(quote)) {
+    let joined = text;
+    for (let extraRows = 0; extraRows <= following.length; extraRows++) {
+      if (extraRows > 0) {
+        joined += `\n${following[extraRows - 1]}`;
+      }
+      const close = findClosingQuote(joined);
+      if (close === -1) {
+        continue;
+      }
+      const trailing = joined.slice(close + 1);
+      if (!TRAILING_COMMENT_PATTERN.test(trailing)) {
+        break;
+      }
+      return {
+        value: unescapeValue(joined.slice(1, close), quote),
+        comment: trailing.trimEnd(),
+        extraRows,
+      };
+    }
+  }
+
+  const comment = INLINE_COMMENT_PATTERN.exec(text)?.[0] ?? "";
+  return {
+    value: text.slice(0, text.length - comment.length).trim(),
+    comment: comment.trimEnd(),
+    extraRows: 0,
+  };
+}
+
+/**
+ * Parses a dotenv blob as stored by Dokploy, keeping comments, blank lines
+ * and the order of variables
+ */
+export function parseEnv(text: string | null | undefined): EnvLine[] {
+  if (!text) {
+    return [];
+  }
+
+  const rows = text.split(/\r?\n/);
+  const lines: EnvLine[] = [];
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index] ?? "";
+    const match = VARIABLE_LINE_PATTERN.exec(row);
+    if (!match) {
+      lines.push({ kind: "other", raw: row });
+      continue;
+    }
+
+    const [, , key = "", rest = ""] = match;
+    const { value, comment, extraRows } = parseValue(
+      rest,
+      rows.slice(index + 1)
+    );
+    const raw = rows.slice(index, index + extraRows + 1).join("\n");
+    index += extraRows;
+    lines.push({ kind: "variable", key, value, comment, raw });
+  }
+  return lines;
+}
+
+export function serializeEnv(lines: EnvLine[]): string {
+  return lines.map((line) => line.raw).join("\n");
+}
+
+/**
+ * The variables a blob defines, in order of first appearance. Like dotenv,
+ * the last line wins when a key is repeated.
+ */
+export function getEnvVariables(lines: EnvLine[]): Map<string, string> {
+  const variables = new Map<string, string>();
+  for (const line of lines) {
+    if (line.kind === "variable") {
+      variables.set(line.key, line.value);
+    }
+  }
+  return variables;
+}
+
+/**
+ * Sets a variable on every line that defines it, keeping an "export "
+ * prefix and inline comment, or appends it after the last non-blank line
+ */
+export function setEnvVariable(
+  lines: EnvLine[],
+  key: string,
+  value: string
+): EnvLine[] {
+  let found = false;
+  const updated = lines.map((line): EnvLine => {
+    if (line.kind !== "variable" || line.key !== key) {
+      return line;
+    }
+    found = true;
+    if (line.value === value) {
+      return line;
+    }
+    const prefix = VARIABLE_LINE_PATTERN.exec(line.raw)?.[1] ?? "";
+    const comment = line.comment ? ` ${line.comment.trimStart()}` : "";
+    return {
+      ...line,
+      value,
+      raw: `${prefix}${key}=${formatValue(value)}${comment}`,
+    };
+  });
+  if (found) {
+    return updated;
+  }
+
+  let end = updated.length;
+  while (end > 0 && updated[end - 1]?.raw.trim() === "") {
+    end--;
+  }
+  return [
+    ...updated.slice(0, end),
+    {
+      kind: "variable",
+      key,
+      value,
+      comment: "",
+      raw: `${key}=${formatValue(value)}`,
+    },
+    ...updated.slice(end),
+  ];
+}
+
+export function unsetEnvVariable(lines: EnvLine[], key: string): EnvLine[] {
+  return lines.filter((line) => line.kind !== "variable" || line.key !== key);
+}
+
+/**
+ * Lists the keys that were added, changed or removed between two sets of
+ * variables
+ */
+export function diffEnv(
+  before: Map<string, string>,
+  after: Map<string, string>
+): EnvChange[] {
+  const changes: EnvChange[] = [];
+  for (const [key, value] of after) {
+    if (!before.has(key)) {
+      changes.push({ key, change: "added" });
+    } else if (before.get(key) !== value) {
+      changes.push({ key, change: "changed" });
+    }
+  }
+  for (const key of before.keys()) {
+    if (!after.has(key)) {
+      changes.push({ key, change: "removed" });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,224 @@
+import type { AxiosInstance } from "axios";
+import { z } from "zod";
+import type { ActionTool, ToolExtra } from "../mcp/tools/toolFactory.js";
+import apiClient, {
+  getDokployConnection,
+  runWithDokployConnection,
+} from "./apiClient.js";
+import { createLogger } from "./logger.js";
+import { isResponseRedactionEnabled, redactField } from "./redaction.js";
+import {
+  ResponseFormatter,
+  type FormattedResponse,
+} from "./responseFormatter.js";
+
+const logger = createLogger("DryRun");
+
+// Accepted by every consolidated tool next to action and params
+export const dryRunSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "Preview the action without changing anything: validates params, checks the project lock and returns the endpoint, payload and a field-level diff against the current state of the target."
+  );
+
+// Axios methods that change Dokploy state; Dokploy mutates through POST
+const MUTATING_METHODS = new Set(["post", "put", "patch", "delete"]);
+
+export interface DryRunRequest {
+  method: string;
+  endpoint: string;
+  payload: unknown;
+}
+
+export interface DryRunChange {
+  field: string;
+  current?: unknown;
+  proposed: unknown;
+}
+
+/**
+ * Thrown in place of the first mutating API call of a dry run, to stop the
+ * action before it changes anything. Tool wrappers must let it through.
+ */
+export class DryRunInterrupt extends Error {
+  constructor(readonly request: DryRunRequest) {
+    super(`Dry run stopped before ${request.method} ${request.endpoint}`);
+    this.name = "DryRunInterrupt";
+  }
+}
+
+// Forwards reads to the real client and interrupts the first mutation
+function createDryRunClient(client: AxiosInstance): AxiosInstance {
+  return new Proxy(client, {
+    get(target, property) {
+      if (typeof property === "string" && MUTATING_METHODS.has(property)) {
+        return async (endpoint: string, payload?: unknown) => {
+          throw new DryRunInterrupt({
+            method: property.toUpperCase(),
+            endpoint,
+            payload,
+          });
+        };
+      }
+
+      const value = Reflect.get(target, property);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Lists the payload fields whose value differs from the current state.
+ * Nested objects are compared field by field, arrays as a whole.
+ */
+function diffFields(
+  current: Record<string, unknown>,
+  proposed: Record<string, unknown>,
+  prefix = ""
+): DryRunChange[] {
+  return Object.entries(proposed).flatMap(([key, value]) => {
+    const field = `${prefix}${key}`;
+    const existing = current[key];
+
+    if (isPlainObject(value) && isPlainObject(existing)) {
+      return diffFields(existing, value, `${field}.`);
+    }
+    if (JSON.stringify(existing) === JSON.stringify(value)) {
+      return [];
+    }
+    return [{ field, current: existing, proposed: value }];
+  });
+}
+
+// Redacts both sides of a change by the name of the field that changes
+function redactChange(change: DryRunChange): DryRunChange {
+  const key = change.field.split(".").pop() ?? change.field;
+  return {
+    field: change.field,
+    current: redactField(key, change.current),
+    proposed: redactField(key, change.proposed),
+  };
+}
+
+export interface DryRunTarget {
+  entity: string;
+  endpoint: string;
+  idParam: string;
+  id: string;
+  state: Record<string, unknown>;
+}
+
+/**
+ * Fetches the object a request targets, e.g. application.one for
+ * /application.update with an applicationId. Returns null for requests that
+ * create something and so have no current state.
+ */
+export async function fetchCurrentState(
+  request: DryRunRequest
+): Promise<DryRunTarget | null> {
+  const entity = request.endpoint.replace(/^\//, "").split(".")[0] ?? "";
+  const idParam = `${entity}Id`;
+  const id = isPlainObject(request.payload)
+    ? request.payload[idParam]
+    : undefined;
+  if (typeof id !== "string") {
+    return null;
+  }
+
+  const endpoint = `/${entity}.one`;
+  const response = await apiClient.get(endpoint, {
+    params: { [idParam]: id },
+  });
+
+  return {
+    entity,
+    endpoint,
+    idParam,
+    id,
+    state: isPlainObject(response?.data) ? response.data : {},
+  };
+}
+
+/**
+ * Runs an action's handler, which validates params against its schema and
+ * builds the request, but stops it at its first mutating API call. Returns
+ * that request, or the handler's result when validation failed or the
+ * action never writes.
+ */
+export async function captureRequest(
+  tool: Pick<ActionTool, "handler">,
+  params: Record<string, unknown>,
+  extra?: ToolExtra
+): Promise<{ request: DryRunRequest } | { result: FormattedResponse }> {
+  const connection = getDokployConnection();
+
+  try {
+    const result = await runWithDokployConnection(
+      { ...connection, client: createDryRunClient(connection.client) },
+      () => tool.handler(params, extra)
+    );
+    return { result };
+  } catch (error) {
+    if (!(error instanceof DryRunInterrupt)) {
+      throw error;
+    }
+    return { request: error.request };
+  }
+}
+
+/**
+ * Runs a consolidated tool action as a dry run: the request it would send
+ * is reported together with a diff against the target's current state.
+ * Actions that only read run as usual. Call after enforceProjectLock.
+ */
+export async function previewAction(
+  toolName: string,
+  action: string,
+  tool: Pick<ActionTool, "handler">,
+  params: Record<string, unknown>,
+  extra?: ToolExtra
+): Promise<FormattedResponse> {
+  const captured = await captureRequest(tool, params, extra);
+  if ("result" in captured) {
+    return captured.result;
+  }
+
+  const { request } = captured;
+  const target = await fetchCurrentState(request);
+  const fields = isPlainObject(request.payload) ? { ...request.payload } : {};
+  if (target) {
+    delete fields[target.idParam];
+  }
+  const changes = diffFields(target?.state ?? {}, fields);
+  const diff = isResponseRedactionEnabled()
+    ? changes.map(redactChange)
+    : changes;
+
+  logger.info("Dry run completed", {
+    tool: toolName,
+    action,
+    endpoint: request.endpoint,
+    changedFields: diff.length,
+    clientId: extra?.authInfo?.clientId,
+  });
+
+  return ResponseFormatter.success(
+    `Dry run of ${toolName} "${action}": nothing was changed`,
+    {
+      dryRun: true,
+      method: request.method,
+      endpoint: request.endpoint,
+      payload: request.payload ?? null,
+      target: target && {
+        endpoint: target.endpoint,
+        [target.idParam]: target.id,
+      },
+      diff,
+    }
+  );
+}
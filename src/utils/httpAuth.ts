@@ -0,0 +1,260 @@
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { NextFunction, Request, Response } from "express";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { createLogger } from "./logger.js";
+import {
+  getOAuthConfig,
+  getResourceMetadataUrl,
+  JwtVerifier,
+  type OAuthConfig,
+} from "./oauth.js";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    auth?: AuthInfo;
+  }
+}
+
+const logger = createLogger("HttpAuth");
+
+const AUTH_REALM = "dokploy-mcp";
+const HASH_PREFIX = "sha256:";
+
+// Client identity used for every request when authentication is disabled
+const ANONYMOUS_AUTH: AuthInfo = {
+  token: "",
+  clientId: "anonymous",
+  scopes: [],
+};
+
+export interface StaticToken {
+  clientId: string;
+  digest: Buffer;
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Parses one token entry. Entries look like "name:secret" or
+ * "name:sha256:<hex digest of secret>"; a bare "secret" gets a
+ * positional name. Names cannot contain ":".
+ */
+function parseTokenEntry(entry: string, index: number): StaticToken {
+  const separator = entry.indexOf(":");
+  const hasName = separator > 0 && !entry.startsWith(HASH_PREFIX);
+  const clientId = hasName ? entry.slice(0, separator) : `token-${index + 1}`;
+  const secret = hasName ? entry.slice(separator + 1) : entry;
+
+  if (secret.startsWith(HASH_PREFIX)) {
+    const hex = secret.slice(HASH_PREFIX.length);
+    if (!/^[0-9a-f]{64}$/i.test(hex)) {
+      throw new Error(
+        `Invalid hashed token for "${clientId}": expected sha256: followed by 64 hex characters`
+      );
+    }
+    return { clientId, digest: Buffer.from(hex, "hex") };
+  }
+
+  if (!secret) {
+    throw new Error(`Empty token for "${clientId}"`);
+  }
+
+  return { clientId, digest: sha256(secret) };
+}
+
+/**
+ * Loads static bearer tokens from MCP_AUTH_TOKENS (comma-separated) and
+ * MCP_AUTH_TOKENS_FILE (one entry per line, # starts a comment)
+ */
+export function loadStaticTokens(): StaticToken[] {
+  const entries: string[] = [];
+
+  const tokensEnv = process.env.MCP_AUTH_TOKENS;
+  if (tokensEnv) {
+    entries.push(...tokensEnv.split(","));
+  }
+
+  const tokensFile = process.env.MCP_AUTH_TOKENS_FILE;
+  if (tokensFile) {
+    const contents = readFileSync(tokensFile, "utf8");
+    entries.push(...contents.split(/\r?\n/).map((line) => line.split("#")[0]!));
+  }
+
+  return entries
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map(parseTokenEntry);
+}
+
+/**
+ * Verifies bearer tokens against a fixed list of (hashed) tokens. Presented
+ * tokens are hashed and compared in constant time.
+ */
+export class StaticTokenVerifier implements OAuthTokenVerifier {
+  constructor(private readonly tokens: StaticToken[]) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const digest = sha256(token);
+    const match = this.tokens.find((candidate) =>
+      timingSafeEqual(candidate.digest, digest)
+    );
+
+    if (!match) {
+      throw new InvalidTokenError("Invalid access token");
+    }
+
+    return {
+      token,
+      clientId: match.clientId,
+      scopes: [],
+      extra: { authMethod: "static" },
+    };
+  }
+}
+
+/**
+ * Sends JWT-shaped tokens to the OAuth verifier and everything else to the
+ * static token list, falling back to the static list if JWT checks fail
+ */
+class HttpTokenVerifier implements OAuthTokenVerifier {
+  constructor(
+    private readonly staticVerifier: StaticTokenVerifier | null,
+    private readonly jwtVerifier: JwtVerifier | null
+  ) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    if (this.jwtVerifier && token.split(".").length === 3) {
+      try {
+        return await this.jwtVerifier.verifyAccessToken(token);
+      } catch (error) {
+        if (!this.staticVerifier) {
+          throw error;
+        }
+        return this.staticVerifier.verifyAccessToken(token).catch(() => {
+          throw error;
+        });
+      }
+    }
+
+    if (!this.staticVerifier) {
+      throw new InvalidTokenError("Invalid access token");
+    }
+    return this.staticVerifier.verifyAccessToken(token);
+  }
+}
+
+export interface HttpAuthConfig {
+  enabled: boolean;
+  verifier: OAuthTokenVerifier | null;
+  oauth: OAuthConfig | null;
+}
+
+/**
+ * Builds the HTTP authentication setup from the environment. Authentication
+ * is required unless MCP_AUTH_DISABLED=true is set explicitly.
+ */
+export function getHttpAuthConfig(): HttpAuthConfig {
+  if (process.env.MCP_AUTH_DISABLED === "true") {
+    logger.warn(
+      "HTTP authentication is disabled; anyone who can reach this server can act on Dokploy"
+    );
+    return { enabled: false, verifier: null, oauth: null };
+  }
+
+  const tokens = loadStaticTokens();
+  const oauth = getOAuthConfig();
+  if (tokens.length === 0 && !oauth) {
+    throw new Error(
+      "HTTP transport requires authentication: set MCP_AUTH_TOKENS, MCP_AUTH_TOKENS_FILE or MCP_OAUTH_ISSUER (or MCP_AUTH_DISABLED=true behind a trusted proxy)"
+    );
+  }
+
+  if (tokens.length > 0) {
+    logger.info(`Loaded ${tokens.length} static bearer token(s)`, {
+      clients: tokens.map((token) => token.clientId),
+    });
+  }
+  if (oauth) {
+    logger.info("OAuth access tokens enabled", {
+      issuer: oauth.issuer,
+      audience: oauth.audience,
+    });
+  }
+
+  return {
+    enabled: true,
+    verifier: new HttpTokenVerifier(
+      tokens.length > 0 ? new StaticTokenVerifier(tokens) : null,
+      oauth ? new JwtVerifier(oauth) : null
+    ),
+    oauth,
+  };
+}
+
+// Makes text safe inside a quoted header parameter: control and non-ASCII
+// characters would make the header invalid, and quotes or backslashes would
+// end it early
+function toQuotedString(text: string): string {
+  return text.replace(/[^\x20-\x7e]+/g, " ").replace(/["\\]/g, "\\$&");
+}
+
+/**
+ * Express middleware that requires a valid bearer token and attaches the
+ * resulting AuthInfo to req.auth, where the MCP transports pick it up and
+ * pass it to tool handlers as extra.authInfo
+ */
+export function requireAuth(config: HttpAuthConfig) {
+  // Point OAuth clients at the metadata document that names the issuer
+  const challenge = config.oauth
+    ? `Bearer realm="${AUTH_REALM}", resource_metadata="${getResourceMetadataUrl(config.oauth)}"`
+    : `Bearer realm="${AUTH_REALM}"`;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!config.enabled || !config.verifier) {
+      req.auth = ANONYMOUS_AUTH;
+      next();
+      return;
+    }
+
+    const [type, token] = (req.headers.authorization ?? "").split(" ");
+    if (type?.toLowerCase() !== "bearer" || !token) {
+      // No credentials at all: challenge without an error code (RFC 6750)
+      logger.warn("Rejected request without bearer token", { path: req.path });
+      res.set("WWW-Authenticate", challenge);
+      res
+        .status(401)
+        .json(new InvalidTokenError("Missing bearer token").toResponseObject());
+      return;
+    }
+
+    try {
+      req.auth = await config.verifier.verifyAccessToken(token);
+      next();
+    } catch (error) {
+      if (!(error instanceof InvalidTokenError)) {
+        logger.error("Token verification failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      const authError =
+        error instanceof InvalidTokenError
+          ? error
+          : new InvalidTokenError("Invalid access token");
+
+      logger.warn("Rejected request with invalid bearer token", {
+        path: req.path,
+        reason: authError.message,
+      });
+      res.set(
+        "WWW-Authenticate",
+        `${challenge}, error="${authError.errorCode}", error_description="${toQuotedString(authError.message)}"`
+      );
+      res.status(401).json(authError.toResponseObject());
+    }
+  };
+}
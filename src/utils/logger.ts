@@ -1,3 +1,5 @@
+import { redactSecrets } from "./redaction.js";
+
 export enum LogLevel {
   ERROR = "error",
   WARN = "warn",
@@ -24,7 +26,11 @@ class Logger {
       level,
       message,
       timestamp: new Date().toISOString(),
-      context: { service: this.context, ...meta },
+      context: {
+        service: this.context,
+        // Tool input and errors can carry credentials
+        ...(meta && (redactSecrets(meta) as Record<string, unknown>)),
+      },
     };
 
     // eslint-disable-next-line no-console
@@ -0,0 +1,391 @@
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import axios from "axios";
+import {
+  createPublicKey,
+  verify,
+  type JsonWebKey,
+  type KeyObject,
+} from "node:crypto";
+import { readFileSync } from "node:fs";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("OAuth");
+
+// Remote key sets are refetched after this long, or sooner for unknown key IDs
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+const JWKS_MIN_REFRESH_MS = 30 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+// Scope that grants every tool and action
+export const FULL_ACCESS_SCOPE = "dokploy";
+
+// Node digest and padding for each supported JWS algorithm
+const ALGORITHMS: Record<
+  string,
+  { digest: string | null; padding?: number; ieee?: boolean }
+> = {
+  RS256: { digest: "sha256" },
+  RS384: { digest: "sha384" },
+  RS512: { digest: "sha512" },
+  PS256: { digest: "sha256", padding: 6 },
+  PS384: { digest: "sha384", padding: 6 },
+  PS512: { digest: "sha512", padding: 6 },
+  ES256: { digest: "sha256", ieee: true },
+  ES384: { digest: "sha384", ieee: true },
+  ES512: { digest: "sha512", ieee: true },
+  EdDSA: { digest: null },
+};
+
+export interface OAuthConfig {
+  issuer: string;
+  audience: string;
+  resource: string;
+  jwksUri: string;
+  authorizationServers: string[];
+  scopeMap: Record<string, string[]>;
+}
+
+interface Jwk {
+  kid?: string;
+  kty: string;
+  use?: string;
+  [key: string]: unknown;
+}
+
+interface JwtHeader {
+  alg?: unknown;
+  kid?: unknown;
+}
+
+interface JwtClaims {
+  iss?: unknown;
+  aud?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+  sub?: unknown;
+  scope?: unknown;
+  scp?: unknown;
+  client_id?: unknown;
+  azp?: unknown;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+function parseScopeMap(raw: string | undefined): Record<string, string[]> {
+  if (!raw) {
+    return {};
+  }
+
+  const parsed = JSON.parse(raw);
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    Object.values(parsed).some(
+      (patterns) =>
+        !Array.isArray(patterns) ||
+        patterns.some((pattern) => typeof pattern !== "string")
+    )
+  ) {
+    throw new Error(
+      "MCP_OAUTH_SCOPE_MAP must be a JSON object mapping scope names to arrays of tool patterns"
+    );
+  }
+  return parsed;
+}
+
+let cachedConfig: OAuthConfig | null | undefined;
+
+/**
+ * Reads the OAuth resource-server settings. Returns null when
+ * MCP_OAUTH_ISSUER is not set, which leaves OAuth disabled.
+ */
+export function getOAuthConfig(): OAuthConfig | null {
+  if (cachedConfig === undefined) {
+    cachedConfig = loadOAuthConfig();
+  }
+  return cachedConfig;
+}
+
+function loadOAuthConfig(): OAuthConfig | null {
+  const issuer = process.env.MCP_OAUTH_ISSUER;
+  if (!issuer) {
+    return null;
+  }
+
+  const resource = process.env.MCP_OAUTH_RESOURCE;
+  const jwksUri = process.env.MCP_OAUTH_JWKS;
+  if (!resource || !jwksUri) {
+    throw new Error(
+      "MCP_OAUTH_ISSUER requires MCP_OAUTH_RESOURCE (this server's public /mcp URL) and MCP_OAUTH_JWKS (JWKS URL or file path)"
+    );
+  }
+
+  return {
+    issuer,
+    resource,
+    jwksUri,
+    audience: process.env.MCP_OAUTH_AUDIENCE || resource,
+    authorizationServers: (
+      process.env.MCP_OAUTH_AUTHORIZATION_SERVERS || issuer
+    )
+      .split(",")
+      .map((server) => server.trim())
+      .filter((server) => server.length > 0),
+    scopeMap: parseScopeMap(process.env.MCP_OAUTH_SCOPE_MAP),
+  };
+}
+
+/**
+ * URL of the protected resource metadata document for the configured
+ * resource, advertised in WWW-Authenticate challenges
+ */
+export function getResourceMetadataUrl(config: OAuthConfig): string {
+  return new URL(
+    "/.well-known/oauth-protected-resource",
+    config.resource
+  ).toString();
+}
+
+/**
+ * Protected resource metadata (RFC 9728) served to MCP clients so they can
+ * discover which authorization server issues tokens for this server
+ */
+export function getProtectedResourceMetadata(
+  config: OAuthConfig,
+  toolNames: string[]
+) {
+  return {
+    resource: config.resource,
+    authorization_servers: config.authorizationServers,
+    scopes_supported: [
+      FULL_ACCESS_SCOPE,
+      ...toolNames,
+      ...Object.keys(config.scopeMap),
+    ],
+    bearer_methods_supported: ["header"],
+    resource_name: "Dokploy MCP Server",
+  };
+}
+
+/**
+ * Verifies JWT access tokens against the issuer's JSON Web Key Set,
+ * checking signature, issuer, audience, expiry and not-before
+ */
+export class JwtVerifier implements OAuthTokenVerifier {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+
+  constructor(private readonly config: OAuthConfig) {}
+
+  private isRemote(): boolean {
+    return /^https?:\/\//.test(this.config.jwksUri);
+  }
+
+  private async loadKeys(): Promise<void> {
+    const jwks = this.isRemote()
+      ? (await axios.get(this.config.jwksUri, { timeout: 10000 })).data
+      : JSON.parse(readFileSync(this.config.jwksUri, "utf8"));
+
+    if (!Array.isArray(jwks?.keys)) {
+      throw new Error(`No keys found in JWKS at ${this.config.jwksUri}`);
+    }
+
+    const keys = new Map<string, KeyObject>();
+    (jwks.keys as Jwk[])
+      .filter((jwk) => !jwk.use || jwk.use === "sig")
+      .forEach((jwk, index) => {
+        keys.set(
+          jwk.kid ?? `key-${index}`,
+          createPublicKey({ key: jwk as JsonWebKey, format: "jwk" })
+        );
+      });
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+    logger.info(`Loaded ${keys.size} signing key(s)`, {
+      jwks: this.config.jwksUri,
+    });
+  }
+
+  private async getKey(kid: string | undefined): Promise<KeyObject> {
+    const age = Date.now() - this.fetchedAt;
+    const stale = this.fetchedAt === 0 || age > JWKS_CACHE_TTL_MS;
+    const unknownKid =
+      kid !== undefined && !this.keys.has(kid) && age > JWKS_MIN_REFRESH_MS;
+
+    if (stale || (unknownKid && this.isRemote())) {
+      await this.loadKeys();
+    }
+
+    const key =
+      kid !== undefined
+        ? this.keys.get(kid)
+        : this.keys.size === 1
+          ? this.keys.values().next().value
+          : undefined;
+
+    if (!key) {
+      throw new InvalidTokenError("Token signed with an unknown key");
+    }
+    return key;
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const segments = token.split(".");
+    if (segments.length !== 3) {
+      throw new InvalidTokenError("Malformed access token");
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = segments as [
+      string,
+      string,
+      string,
+    ];
+
+    let header: JwtHeader;
+    let claims: JwtClaims;
+    try {
+      header = decodeSegment(encodedHeader);
+      claims = decodeSegment(encodedPayload);
+    } catch {
+      throw new InvalidTokenError("Malformed access token");
+    }
+
+    const algorithm =
+      typeof header.alg === "string" && Object.hasOwn(ALGORITHMS, header.alg)
+        ? ALGORITHMS[header.alg]
+        : undefined;
+    if (!algorithm) {
+      // Fixed message: the header is unauthenticated and the message ends up
+      // in the WWW-Authenticate header
+      throw new InvalidTokenError("Unsupported token algorithm");
+    }
+
+    const key = await this.getKey(
+      typeof header.kid === "string" ? header.kid : undefined
+    );
+    let valid = false;
+    try {
+      valid = verify(
+        algorithm.digest,
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        {
+          key,
+          ...(algorithm.padding !== undefined && {
+            padding: algorithm.padding,
+          }),
+          ...(algorithm.ieee && { dsaEncoding: "ieee-p1363" as const }),
+        },
+        Buffer.from(encodedSignature, "base64url")
+      );
+    } catch {
+      // Key type doesn't fit the algorithm named in the header
+      valid = false;
+    }
+    if (!valid) {
+      throw new InvalidTokenError("Invalid token signature");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.iss !== this.config.issuer) {
+      throw new InvalidTokenError("Token issuer is not trusted");
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.config.audience)) {
+      throw new InvalidTokenError("Token audience does not match this server");
+    }
+    if (
+      typeof claims.exp !== "number" ||
+      claims.exp + CLOCK_SKEW_SECONDS < now
+    ) {
+      throw new InvalidTokenError("Token has expired");
+    }
+    if (
+      typeof claims.nbf === "number" &&
+      claims.nbf - CLOCK_SKEW_SECONDS > now
+    ) {
+      throw new InvalidTokenError("Token is not valid yet");
+    }
+
+    const scopes =
+      typeof claims.scope === "string"
+        ? claims.scope.split(" ").filter((scope) => scope.length > 0)
+        : Array.isArray(claims.scp)
+          ? claims.scp.filter((scope) => typeof scope === "string")
+          : [];
+    const clientId = [claims.client_id, claims.azp, claims.sub].find(
+      (value): value is string => typeof value === "string"
+    );
+
+    return {
+      token,
+      clientId: clientId ?? "unknown",
+      scopes,
+      expiresAt: claims.exp,
+      extra: { authMethod: "oauth", subject: claims.sub },
+    };
+  }
+}
+
+function matchesPattern(pattern: string, target: string): boolean {
+  const normalized =
+    pattern === FULL_ACCESS_SCOPE
+      ? "*"
+      : pattern.includes(":")
+        ? pattern
+        : `${pattern}:*`;
+  const regex = new RegExp(
+    `^${normalized
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`
+  );
+  return regex.test(target);
+}
+
+/**
+ * Checks an OAuth token's scopes against a tool call. A scope grants
+ * access when it is "dokploy", a tool name ("dokploy_application"), a
+ * tool action ("dokploy_application:deploy"), or a name in
+ * MCP_OAUTH_SCOPE_MAP whose patterns match. Patterns use the same
+ * "tool:action" form and may contain * wildcards. Static tokens are not
+ * scope-restricted.
+ *
+ * Returns null if access is granted, an error message if not
+ */
+export function authorizeToolCall(
+  authInfo: AuthInfo | undefined,
+  toolName: string,
+  action: string | undefined
+): string | null {
+  const config = getOAuthConfig();
+  if (!config || authInfo?.extra?.authMethod !== "oauth") {
+    return null;
+  }
+
+  const target = `${toolName}:${action ?? ""}`;
+  // Own keys only, so scopes such as "constructor" are not read off the
+  // prototype of the map
+  const granted = authInfo.scopes.some((scope) =>
+    (Object.hasOwn(config.scopeMap, scope)
+      ? (config.scopeMap[scope] ?? [])
+      : [scope]
+    ).some((pattern) => matchesPattern(pattern, target))
+  );
+
+  if (!granted) {
+    logger.warn("Tool call denied by token scopes", {
+      clientId: authInfo.clientId,
+      tool: toolName,
+      action,
+      scopes: authInfo.scopes,
+    });
+    return `Access denied: token scopes [${authInfo.scopes.join(", ")}] do not allow "${target}"`;
+  }
+
+  return null;
+}
@@ -1,8 +1,41 @@
-import apiClient from "./apiClient.js";
+import apiClient, { getDokployConnection } from "./apiClient.js";
 import { createLogger } from "./logger.js";
 
 const logger = createLogger("ProjectLock");
 
+// How long resolved ownership and environment lists are reused before
+// asking Dokploy again
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Endpoints used to look up the resource behind each ID parameter
+const RESOURCE_LOOKUPS: Record<string, string> = {
+  applicationId: "/application.one",
+  composeId: "/compose.one",
+  postgresId: "/postgres.one",
+  mysqlId: "/mysql.one",
+  mariadbId: "/mariadb.one",
+  mongoId: "/mongo.one",
+  redisId: "/redis.one",
+  domainId: "/domain.one",
+  backupId: "/backup.one",
+};
+
+// Resources that belong to a service rather than directly to an environment
+const PARENT_ID_PARAMS = [
+  "applicationId",
+  "composeId",
+  "postgresId",
+  "mysqlId",
+  "mariadbId",
+  "mongoId",
+  "redisId",
+];
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
 export interface ProjectLockConfig {
   lockedProjectId: string | null;
   isEnabled: boolean;
@@ -11,6 +44,10 @@ export interface ProjectLockConfig {
 class ProjectLockManager {
   private static instance: ProjectLockManager;
   private config: ProjectLockConfig | null = null;
+  // Caches are keyed by Dokploy URL, since HTTP sessions may each use
+  // a different instance
+  private environmentIds = new Map<string, CacheEntry<Set<string> | null>>();
+  private resourceOwners = new Map<string, CacheEntry<string | null>>();
 
   private constructor() {}
 
@@ -75,6 +112,61 @@ class ProjectLockManager {
     }
   }
 
+  /**
+   * Gets the environment IDs of the locked project, or null when the
+   * project response doesn't list them. Cached, refreshed on demand.
+   */
+  private async getLockedEnvironmentIds(
+    refresh = false
+  ): Promise<Set<string> | null> {
+    const config = this.getConfig();
+    const { dokployUrl } = getDokployConnection();
+    const cached = this.environmentIds.get(dokployUrl);
+
+    if (!refresh && cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const projectResponse = await apiClient.get(
+      `/project.one?projectId=${config.lockedProjectId}`
+    );
+
+    if (!projectResponse?.data) {
+      throw new Error(`Locked project "${config.lockedProjectId}" not found`);
+    }
+
+    // Note: The exact structure depends on Dokploy's API response
+    const project = projectResponse.data;
+    const environmentIds = Array.isArray(project.environments)
+      ? new Set<string>(
+          project.environments.map((env: any) => env.environmentId ?? env.id)
+        )
+      : null;
+
+    this.environmentIds.set(dokployUrl, {
+      value: environmentIds,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+    return environmentIds;
+  }
+
+  /**
+   * Checks whether an environment is part of the locked project. A miss
+   * refreshes the cached list once, so newly created environments pass.
+   * Returns null when ownership cannot be verified.
+   */
+  private async isLockedEnvironment(
+    environmentId: string
+  ): Promise<boolean | null> {
+    let environmentIds = await this.getLockedEnvironmentIds();
+
+    if (environmentIds && !environmentIds.has(environmentId)) {
+      environmentIds = await this.getLockedEnvironmentIds(true);
+    }
+
+    return environmentIds ? environmentIds.has(environmentId) : null;
+  }
+
   /**
    * Checks if an environmentId belongs to the locked project
    * Returns null if check passes, error message if it fails
@@ -90,33 +182,14 @@ class ProjectLockManager {
     }
 
     try {
-      // Get the project details to check environments
-      const projectResponse = await apiClient.get(
-        `/project.one?projectId=${config.lockedProjectId}`
-      );
+      const belongs = await this.isLockedEnvironment(environmentId);
 
-      if (!projectResponse?.data) {
-        return `Locked project "${config.lockedProjectId}" not found`;
+      if (belongs === false) {
+        return `Access denied: Environment "${environmentId}" does not belong to locked project "${config.lockedProjectId}"`;
       }
 
-      // Check if the environment belongs to this project
-      // Note: The exact structure depends on Dokploy's API response
-      // Assuming the project has an environments array
-      const project = projectResponse.data;
-
-      // If project has environments list, check if environmentId is in it
-      if (project.environments && Array.isArray(project.environments)) {
-        const environmentExists = project.environments.some(
-          (env: any) =>
-            env.id === environmentId || env.environmentId === environmentId
-        );
-
-        if (!environmentExists) {
-          return `Access denied: Environment "${environmentId}" does not belong to locked project "${config.lockedProjectId}"`;
-        }
-      }
       // If we can't verify the environment list, we'll allow it but log a warning
-      else {
+      if (belongs === null) {
         logger.warn(
           `Cannot verify environment ownership for project ${config.lockedProjectId}. Allowing operation.`
         );
@@ -133,6 +206,88 @@ class ProjectLockManager {
     }
   }
 
+  /**
+   * Resolves the project that owns a resource, following domains and
+   * backups to the service they belong to. Returns null when the owner
+   * cannot be determined.
+   */
+  private async resolveOwningProjectId(
+    idParam: string,
+    resourceId: string
+  ): Promise<string | null> {
+    const cacheKey = `${getDokployConnection().dokployUrl} ${idParam}:${resourceId}`;
+    const cached = this.resourceOwners.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const endpoint = RESOURCE_LOOKUPS[idParam];
+    if (!endpoint) {
+      return null;
+    }
+
+    const response = await apiClient.get(endpoint, {
+      params: { [idParam]: resourceId },
+    });
+    const resource = response?.data;
+    let projectId: string | null = null;
+
+    if (resource?.environment?.projectId) {
+      projectId = resource.environment.projectId;
+    } else if (resource?.environmentId) {
+      const belongs = await this.isLockedEnvironment(resource.environmentId);
+      projectId = belongs ? this.getConfig().lockedProjectId : null;
+    } else if (resource) {
+      const parentParam = PARENT_ID_PARAMS.find((param) => resource[param]);
+      if (parentParam) {
+        projectId = await this.resolveOwningProjectId(
+          parentParam,
+          resource[parentParam]
+        );
+      }
+    }
+
+    this.resourceOwners.set(cacheKey, {
+      value: projectId,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+    return projectId;
+  }
+
+  /**
+   * Checks that the resource behind an ID parameter (applicationId,
+   * domainId, ...) belongs to the locked project
+   * Returns null if check passes, error message if it fails
+   */
+  async validateResourceBelongsToProject(
+    idParam: string,
+    resourceId: string
+  ): Promise<string | null> {
+    const config = this.getConfig();
+
+    if (!config.isEnabled || !config.lockedProjectId) {
+      // No lock enabled, allow any resource
+      return null;
+    }
+
+    try {
+      const projectId = await this.resolveOwningProjectId(idParam, resourceId);
+
+      if (projectId !== config.lockedProjectId) {
+        return `Access denied: ${idParam} "${resourceId}" does not belong to locked project "${config.lockedProjectId}"`;
+      }
+
+      return null; // Validation passed
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error(
+        `Failed to resolve ${idParam} "${resourceId}": ${errorMessage}`
+      );
+      return `Failed to verify ${idParam} "${resourceId}" belongs to the locked project: ${errorMessage}`;
+    }
+  }
+
   /**
    * Validates that a projectId parameter matches the locked project
    * Returns null if check passes, error message if it fails
@@ -185,6 +340,20 @@ export function getEffectiveProjectId(projectId?: string): string | undefined {
   return getProjectLockManager().getEffectiveProjectId(projectId);
 }
 
+export function getProjectScopedIdParams(): string[] {
+  return Object.keys(RESOURCE_LOOKUPS);
+}
+
+export async function validateResourceBelongsToProject(
+  idParam: string,
+  resourceId: string
+): Promise<string | null> {
+  return getProjectLockManager().validateResourceBelongsToProject(
+    idParam,
+    resourceId
+  );
+}
+
 export async function validateEnvironmentBelongsToProject(
   environmentId: string
 ): Promise<string | null> {
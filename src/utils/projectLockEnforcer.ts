@@ -2,6 +2,8 @@ import { ResponseFormatter, FormattedResponse } from "./responseFormatter.js";
 import {
   validateProjectId,
   validateEnvironmentBelongsToProject,
+  validateResourceBelongsToProject,
+  getProjectScopedIdParams,
   getEffectiveProjectId,
   getProjectLockManager,
 } from "./projectLock.js";
@@ -27,6 +29,11 @@ export async function enforceProjectLock(
     return null;
   }
 
+  // Malformed params are rejected by the action's own schema validation
+  if (typeof params !== "object" || params === null) {
+    return null;
+  }
+
   // Check if params contain a projectId that doesn't match the locked project
   if (params.projectId) {
     const projectIdError = validateProjectId(params.projectId);
@@ -77,6 +84,66 @@ export async function enforceProjectLock(
     }
   }
 
+  // Check if params contain sourceEnvironmentId (for duplicate operations)
+  if (params.sourceEnvironmentId) {
+    const envError = await validateEnvironmentBelongsToProject(
+      params.sourceEnvironmentId
+    );
+    if (envError) {
+      logger.warn(`Source environment validation failed: ${envError}`);
+      return ResponseFormatter.error(
+        "Source environment validation failed",
+        envError
+      );
+    }
+  }
+
+  // Resolve resource IDs to their owning project (results are cached)
+  for (const idParam of getProjectScopedIdParams()) {
+    const resourceId = params[idParam];
+    if (typeof resourceId !== "string" || !resourceId) {
+      continue;
+    }
+
+    logger.debug(
+      `Validating ${idParam} "${resourceId}" belongs to locked project "${config.lockedProjectId}"`
+    );
+    const resourceError = await validateResourceBelongsToProject(
+      idParam,
+      resourceId
+    );
+    if (resourceError) {
+      logger.warn(`Project lock violation: ${resourceError}`);
+      return ResponseFormatter.error("Project lock violation", resourceError);
+    }
+  }
+
+  // Services picked for an environment duplicate are nested, e.g.
+  // selectedServices: [{ id: "...", type: "postgres" }]
+  if (Array.isArray(params.selectedServices)) {
+    for (const service of params.selectedServices) {
+      const idParam = `${service?.type}Id`;
+      const resourceError = getProjectScopedIdParams().includes(idParam)
+        ? await validateResourceBelongsToProject(idParam, String(service.id))
+        : `Access denied: service type "${service?.type}" cannot be checked against locked project "${config.lockedProjectId}"`;
+      if (resourceError) {
+        logger.warn(`Project lock violation: ${resourceError}`);
+        return ResponseFormatter.error("Project lock violation", resourceError);
+      }
+    }
+  }
+
+  // Destinations are shared by all projects, so one may only be used
+  // together with a backup or database checked above
+  if (
+    params.destinationId &&
+    !getProjectScopedIdParams().some((idParam) => params[idParam])
+  ) {
+    const destinationError = `Access denied: destinationId "${params.destinationId}" is shared by all projects and can only be used with a backup or database of locked project "${config.lockedProjectId}"`;
+    logger.warn(`Project lock violation: ${destinationError}`);
+    return ResponseFormatter.error("Project lock violation", destinationError);
+  }
+
   return null; // All validations passed
 }
 
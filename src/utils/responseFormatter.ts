@@ -1,3 +1,5 @@
+import { redactResponse } from "./redaction.js";
+
 export interface FormattedResponse {
   content: { type: "text"; text: string }[];
   isError?: boolean;
@@ -8,7 +10,9 @@ export class ResponseFormatter {
     const responseData = {
       success: true,
       message,
-      ...(data && typeof data === "object" && data !== null ? { data } : {}),
+      ...(data && typeof data === "object" && data !== null
+        ? { data: redactResponse(data) }
+        : {}),
     };
 
     return {
@@ -21,11 +25,16 @@ export class ResponseFormatter {
     };
   }
 
-  static error(message: string, details?: string): FormattedResponse {
+  static error(
+    message: string,
+    details?: string,
+    data?: unknown
+  ): FormattedResponse {
     const errorData = {
       success: false,
       error: message,
       ...(details && { details }),
+      ...(data && typeof data === "object" && data !== null ? { data } : {}),
     };
 
     return {
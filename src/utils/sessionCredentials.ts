@@ -0,0 +1,124 @@
+import type { IncomingHttpHeaders } from "node:http";
+import {
+  createDokployConnection,
+  type DokployConnection,
+} from "./apiClient.js";
+import { hasDefaultCredentials } from "./clientConfig.js";
+import { createLogger } from "./logger.js";
+
+const logger = createLogger("SessionCredentials");
+
+// Initialization headers carrying a session's own Dokploy credentials
+export const DOKPLOY_URL_HEADER = "x-dokploy-url";
+export const DOKPLOY_API_KEY_HEADER = "x-dokploy-api-key";
+
+export type SessionConnectionResult =
+  | { ok: true; connection: DokployConnection | null }
+  | { ok: false; status: number; message: string };
+
+/**
+ * Reads DOKPLOY_ALLOWED_HOSTS, the comma-separated Dokploy hosts that
+ * sessions may connect to. Entries are "host" or "host:port", and
+ * "*.example.com" matches any subdomain. An empty list disables
+ * per-session credentials.
+ */
+export function getAllowedDokployHosts(): string[] {
+  return (process.env.DOKPLOY_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter((host) => host.length > 0);
+}
+
+function isAllowedHost(url: URL, allowedHosts: string[]): boolean {
+  return allowedHosts.some((entry) => {
+    // Entries with a port must match it, others match any port
+    const target = entry.includes(":") ? url.host : url.hostname;
+    return entry.startsWith("*.")
+      ? target.endsWith(entry.slice(1))
+      : target === entry;
+  });
+}
+
+function readHeader(
+  headers: IncomingHttpHeaders,
+  name: string
+): string | undefined {
+  const value = headers[name];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Resolves the Dokploy connection for a new HTTP session from its
+ * initialization headers. Returns a null connection when the session sends
+ * no credentials and the server-wide DOKPLOY_URL/DOKPLOY_API_KEY apply.
+ */
+export function resolveSessionConnection(
+  headers: IncomingHttpHeaders,
+  allowedHosts: string[]
+): SessionConnectionResult {
+  const dokployUrl = readHeader(headers, DOKPLOY_URL_HEADER);
+  const authToken = readHeader(headers, DOKPLOY_API_KEY_HEADER);
+
+  if (!dokployUrl && !authToken) {
+    if (hasDefaultCredentials()) {
+      return { ok: true, connection: null };
+    }
+    return {
+      ok: false,
+      status: 400,
+      message: `Bad Request: ${DOKPLOY_URL_HEADER} and ${DOKPLOY_API_KEY_HEADER} headers are required`,
+    };
+  }
+
+  if (!dokployUrl || !authToken) {
+    return {
+      ok: false,
+      status: 400,
+      message: `Bad Request: ${DOKPLOY_URL_HEADER} and ${DOKPLOY_API_KEY_HEADER} must be sent together`,
+    };
+  }
+
+  if (allowedHosts.length === 0) {
+    return {
+      ok: false,
+      status: 403,
+      message:
+        "Forbidden: Per-session Dokploy credentials are not enabled on this server",
+    };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(dokployUrl);
+  } catch {
+    return {
+      ok: false,
+      status: 400,
+      message: `Bad Request: ${DOKPLOY_URL_HEADER} is not a valid URL`,
+    };
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return {
+      ok: false,
+      status: 400,
+      message: `Bad Request: ${DOKPLOY_URL_HEADER} must be an http(s) URL`,
+    };
+  }
+
+  if (!isAllowedHost(url, allowedHosts)) {
+    logger.warn("Rejected session for Dokploy host outside the allow-list", {
+      host: url.host,
+    });
+    return {
+      ok: false,
+      status: 403,
+      message: `Forbidden: Dokploy host "${url.host}" is not in DOKPLOY_ALLOWED_HOSTS`,
+    };
+  }
+
+  return {
+    ok: true,
+    connection: createDokployConnection(dokployUrl, authToken),
+  };
+}